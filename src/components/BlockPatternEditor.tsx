@@ -0,0 +1,33 @@
+import { Input } from "@/components/ui/input";
+
+interface BlockPatternEditorProps {
+  size: number;
+  // size × size entries, row-major
+  value: string[];
+  onChange: (value: string[]) => void;
+  compact?: boolean;
+}
+
+// Grid editor for block sections: each cell names the 1-based source cell copied into it
+export const BlockPatternEditor = ({ size, value, onChange, compact }: BlockPatternEditorProps) => (
+  <div
+    className={`grid ${compact ? "gap-1" : "gap-2"} w-fit`}
+    style={{ gridTemplateColumns: `repeat(${size}, minmax(2.5rem, 3rem))` }}
+  >
+    {value.map((cell, index) => (
+      <Input
+        key={index}
+        value={cell}
+        onChange={(e) => {
+          const newValue = [...value];
+          newValue[index] = e.target.value;
+          onChange(newValue);
+        }}
+        onClick={(e) => e.stopPropagation()}
+        placeholder={(index + 1).toString()}
+        aria-label={`Row ${Math.floor(index / size) + 1}, column ${(index % size) + 1}`}
+        className={`text-center px-1 ${compact ? "h-8 text-xs" : ""}`}
+      />
+    ))}
+  </div>
+);
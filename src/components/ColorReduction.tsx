@@ -0,0 +1,358 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Palette } from "lucide-react";
+import {
+  buildPalette,
+  countPaletteUsage,
+  downscalePixelBuffer,
+  expandIndexed,
+  formatHexColor,
+  getPaletteSize,
+  mapToPalette,
+  MAX_PALETTE_COLORS,
+  parseHexPalette,
+  type IndexedImage,
+  type PixelBuffer,
+  type QuantizeMethod,
+} from "@/lib/engine";
+import { yarnPaletteService, type YarnColor, type YarnPalette } from "@/lib/supabase";
+import { toPaletteBytes } from "@/lib/formats/palette-files";
+import { QUANTIZE_METHOD_OPTIONS, type ColorReductionSettings } from "@/lib/processing-options";
+import type { UploadedImage } from "@/components/ImageUpload";
+
+export interface ReducedImage {
+  imageData: ImageData;
+  indexed: IndexedImage;
+}
+
+interface ColorReductionProps {
+  images: UploadedImage[];
+  settings: ColorReductionSettings;
+  onSettingsChange: (settings: ColorReductionSettings) => void;
+  // The reduced images, in upload order, or null when reduction is off or fails
+  onReducedChange: (images: ReducedImage[] | null) => void;
+}
+
+interface ReductionPreview {
+  previewUrl: string;
+  palette: Uint8Array;
+  // Pixels per palette entry over all images, counted on the preview copies until applied
+  counts: number[];
+  // Names and codes when the palette comes from the library
+  yarns?: YarnColor[];
+}
+
+// Waits for typing to settle before recomputing
+const PREVIEW_DELAY_MS = 250;
+
+// The live preview reduces copies at most this many pixels on their longer side; the full
+// images are only reduced when the settings are applied
+const PREVIEW_SIZE = 320;
+
+const toImageData = (indexed: IndexedImage): ImageData => {
+  const { data, width, height } = expandIndexed(indexed);
+  return new ImageData(data, width, height);
+};
+
+const toPreviewUrl = (imageData: ImageData): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const reduceColors = (
+  sources: PixelBuffer[],
+  { paletteSource, colorCount, fixedPalette, method, dither, distance }: ColorReductionSettings,
+  libraryPalette: YarnPalette | undefined
+): { reduced: IndexedImage[]; preview: Omit<ReductionPreview, 'previewUrl'> } => {
+  if (paletteSource === 'library' && !libraryPalette) {
+    throw new Error("Choose a yarn palette from the library");
+  }
+
+  const yarns = paletteSource === 'library' ? libraryPalette?.colors : undefined;
+  const palette = yarns
+    ? toPaletteBytes(yarns)
+    : paletteSource === 'fixed'
+      ? parseHexPalette(fixedPalette)
+      : buildPalette(sources, colorCount, method);
+
+  const reduced = sources.map((source) => mapToPalette(source, palette, { dither, distance }));
+
+  const counts = new Array<number>(getPaletteSize({ palette })).fill(0);
+  reduced.forEach((indexed) => countPaletteUsage(indexed).forEach((count, i) => (counts[i] += count)));
+
+  return { reduced, preview: { palette, counts, yarns } };
+};
+
+// Reduces the uploads to a handful of yarn colors before they are reordered. Interleaved images
+// share one palette so the same yarn keeps the same index in every image.
+export const ColorReduction = ({ images, settings, onSettingsChange, onReducedChange }: ColorReductionProps) => {
+  const [preview, setPreview] = useState<ReductionPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Whether the full-resolution images were reduced with the current settings
+  const [applied, setApplied] = useState(false);
+  const [palettes, setPalettes] = useState<YarnPalette[]>([]);
+  const { enabled, paletteSource, colorCount, fixedPalette, libraryPaletteId, method, dither, distance } = settings;
+  const libraryPalette = palettes.find((palette) => palette.id === libraryPaletteId);
+
+  useEffect(() => {
+    yarnPaletteService.getAllPalettes().then(setPalettes);
+    const subscription = yarnPaletteService.subscribeToPalettes(setPalettes);
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    // Any change makes the applied reduction stale
+    setApplied(false);
+    onReducedChange(null);
+
+    if (!enabled || images.length === 0) {
+      setPreview(null);
+      setError(null);
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      try {
+        const sources = images.map((image) => downscalePixelBuffer(image.imageData, PREVIEW_SIZE));
+        const { reduced, preview } = reduceColors(sources, settings, libraryPalette);
+
+        setPreview({ ...preview, previewUrl: toPreviewUrl(toImageData(reduced[0])) });
+        setError(null);
+      } catch (reductionError) {
+        setPreview(null);
+        setError(reductionError instanceof Error ? reductionError.message : "Failed to reduce colors");
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [images, enabled, settings, libraryPalette, onReducedChange]);
+
+  const handleApply = () => {
+    try {
+      const { reduced, preview } = reduceColors(images.map((image) => image.imageData), settings, libraryPalette);
+      const reducedImages = reduced.map((indexed) => ({ imageData: toImageData(indexed), indexed }));
+
+      setPreview({ ...preview, previewUrl: toPreviewUrl(reducedImages[0].imageData) });
+      setError(null);
+      setApplied(true);
+      onReducedChange(reducedImages);
+    } catch (reductionError) {
+      setError(reductionError instanceof Error ? reductionError.message : "Failed to reduce colors");
+    }
+  };
+
+  const update = (changes: Partial<ColorReductionSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  const total = preview?.counts.reduce((sum, count) => sum + count, 0) ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          <Palette className="h-5 w-5" />
+          Reduce Colors
+        </CardTitle>
+        <CardDescription>
+          Map the image onto the yarn colors available for the loom before reordering
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="reduceColors"
+            checked={enabled}
+            onCheckedChange={(checked) => update({ enabled: checked })}
+            disabled={images.length === 0}
+          />
+          <Label htmlFor="reduceColors">Reduce colors before processing</Label>
+        </div>
+
+        {enabled && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Palette</Label>
+                <Select value={paletteSource} onValueChange={(value) => update({ paletteSource: value as ColorReductionSettings['paletteSource'] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">Number of colors</SelectItem>
+                    <SelectItem value="fixed">Fixed yarn colors</SelectItem>
+                    <SelectItem value="library">Yarn palette library</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {paletteSource === 'library' && (
+                <div className="space-y-2 md:col-span-2">
+                  <Label>Yarn palette</Label>
+                  <Select value={libraryPaletteId} onValueChange={(value) => update({ libraryPaletteId: value })} disabled={palettes.length === 0}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={palettes.length === 0 ? "No saved palettes" : "Choose a palette"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {palettes.map((palette) => (
+                        <SelectItem key={palette.id} value={palette.id}>
+                          {palette.name} ({palette.colors.length} yarns)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {paletteSource === 'count' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="colorCount">Colors</Label>
+                    <Input
+                      id="colorCount"
+                      type="number"
+                      min="1"
+                      max={MAX_PALETTE_COLORS}
+                      value={colorCount}
+                      onChange={(e) => update({ colorCount: Math.min(MAX_PALETTE_COLORS, Math.max(1, parseInt(e.target.value) || 1)) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Method</Label>
+                    <Select value={method} onValueChange={(value) => update({ method: value as QuantizeMethod })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {QUANTIZE_METHOD_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch id="dither" checked={dither} onCheckedChange={(checked) => update({ dither: checked })} />
+                <Label htmlFor="dither">Dithering</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="perceptual"
+                  checked={distance === 'ciede2000'}
+                  onCheckedChange={(checked) => update({ distance: checked ? 'ciede2000' : 'rgb' })}
+                />
+                <Label htmlFor="perceptual">Perceptual matching (CIEDE2000)</Label>
+              </div>
+            </div>
+
+            {paletteSource === 'fixed' && (
+              <div className="space-y-2">
+                <Label htmlFor="fixedPalette">Yarn colors</Label>
+                <Textarea
+                  id="fixedPalette"
+                  placeholder="#1f3a5f, #e8d8b0, #9c2f2f"
+                  value={fixedPalette}
+                  onChange={(e) => update({ fixedPalette: e.target.value })}
+                  className="font-mono"
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4">
+              <Button onClick={handleApply} disabled={!preview || applied}>
+                Apply Reduction
+              </Button>
+              <p className="text-sm text-muted-foreground">
+                {applied
+                  ? "The full-resolution images are reduced and will be processed."
+                  : "The preview is a scaled-down copy; apply to reduce the full images before processing."}
+              </p>
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {preview && images[0] && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-center">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Original</p>
+                    <img src={images[0].previewUrl} alt="Original" className="max-w-full max-h-64 mx-auto rounded border" />
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">
+                      {applied ? "Reduced" : "Preview"} ({getPaletteSize(preview)} colors)
+                    </p>
+                    <img src={preview.previewUrl} alt="Reduced" className="max-w-full max-h-64 mx-auto rounded border" />
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Color</TableHead>
+                      <TableHead>Index</TableHead>
+                      <TableHead>Hex</TableHead>
+                      {preview.yarns && <TableHead>Yarn</TableHead>}
+                      {applied && <TableHead className="text-right">Pixels</TableHead>}
+                      <TableHead className="text-right">Coverage</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.counts.map((count, index) => {
+                      const hex = formatHexColor(preview.palette, index);
+                      return (
+                        <TableRow key={index} className={count === 0 ? "opacity-50" : ""}>
+                          <TableCell>
+                            <div className="h-5 w-8 rounded border" style={{ backgroundColor: hex }} />
+                          </TableCell>
+                          <TableCell>{index}</TableCell>
+                          <TableCell className="font-mono">{hex}</TableCell>
+                          {preview.yarns && (
+                            <TableCell>
+                              {preview.yarns[index].name}
+                              {preview.yarns[index].code && (
+                                <span className="ml-1 text-muted-foreground">({preview.yarns[index].code})</span>
+                              )}
+                            </TableCell>
+                          )}
+                          {applied && <TableCell className="text-right">{count.toLocaleString()}</TableCell>}
+                          <TableCell className="text-right">
+                            {total > 0 ? `${((count / total) * 100).toFixed(1)}%` : '–'}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Save, SwatchBook } from "lucide-react";
+import { toast } from "sonner";
+import {
+  assignColorway,
+  downscalePixelBuffer,
+  expandIndexed,
+  formatHexColor,
+  fromIndexPlane,
+  generateColorways,
+  getPaletteSize,
+  MAX_COLORWAYS,
+  toIndexPlane,
+  type HarmonyRule,
+  type IndexedImage,
+} from "@/lib/engine";
+import { yarnPaletteService, type YarnColor, type YarnPalette } from "@/lib/supabase";
+import { encodeIndexedPng } from "@/lib/formats/png";
+import { toPaletteBytes } from "@/lib/formats/palette-files";
+import { createZip } from "@/lib/formats/zip";
+import type { Resolution } from "@/lib/formats/resolution";
+import { HARMONY_RULE_OPTIONS } from "@/lib/processing-options";
+
+interface ColorwayGeneratorProps {
+  // The processed design; only its palette changes between colorways
+  design: IndexedImage;
+  resolution: Resolution;
+  onDownload: (blob: Blob, extension: string) => void;
+}
+
+interface Colorway {
+  id: string;
+  label: string;
+  palette: Uint8Array;
+  // Names and codes for colorways taken from a saved yarn palette
+  yarns?: YarnColor[];
+}
+
+// Thumbnails are at most this many pixels on their longer side
+const THUMBNAIL_SIZE = 240;
+
+// Small copy of the design shared by every thumbnail; indices are sampled rather than blended so
+// threads stay crisp and only the palette changes per colorway
+const shrinkDesign = (design: IndexedImage): IndexedImage =>
+  fromIndexPlane(downscalePixelBuffer(toIndexPlane(design), THUMBNAIL_SIZE), design.palette);
+
+const renderThumbnail = (image: IndexedImage): string => {
+  const { width, height, data } = expandIndexed(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.putImageData(new ImageData(data, width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const toYarnColors = (palette: Uint8Array): YarnColor[] =>
+  Array.from({ length: getPaletteSize({ palette }) }, (_, i) => {
+    const hex = formatHexColor(palette, i);
+    return { name: hex, code: '', hex };
+  });
+
+// Shows the processed design in alternative palettes, generated from harmony rules or taken from
+// saved yarn palettes (slot by slot), and exports the chosen ones as one ZIP
+export const ColorwayGenerator = ({ design, resolution, onDownload }: ColorwayGeneratorProps) => {
+  const [rule, setRule] = useState<HarmonyRule>('hue-rotation');
+  const [count, setCount] = useState(6);
+  const [palettes, setPalettes] = useState<YarnPalette[]>([]);
+  const [savedIds, setSavedIds] = useState<string[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    yarnPaletteService.getAllPalettes().then(setPalettes);
+    const subscription = yarnPaletteService.subscribeToPalettes(setPalettes);
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const colorways = useMemo<Colorway[]>(() => {
+    const ruleLabel = HARMONY_RULE_OPTIONS.find((option) => option.value === rule)?.label ?? rule;
+    const generated = generateColorways(design.palette, rule, count).map((palette, k) => ({
+      id: `generated-${rule}-${k}`,
+      label: `${ruleLabel} ${k + 1}`,
+      palette,
+    }));
+    const saved = palettes
+      .filter((palette) => savedIds.includes(palette.id) && palette.colors.length > 0)
+      .map((palette) => {
+        const yarns = palette.colors;
+        return {
+          id: `saved-${palette.id}`,
+          label: palette.name,
+          palette: assignColorway(design.palette, toPaletteBytes(yarns)),
+          yarns: Array.from({ length: getPaletteSize(design) }, (_, i) => yarns[i % yarns.length]),
+        };
+      });
+
+    return [{ id: 'original', label: 'Original', palette: design.palette }, ...generated, ...saved];
+  }, [design, rule, count, palettes, savedIds]);
+
+  const thumbnailDesign = useMemo(() => shrinkDesign(design), [design]);
+  const thumbnails = useMemo(
+    () => new Map(colorways.map((colorway) => [colorway.id, renderThumbnail({ ...thumbnailDesign, palette: colorway.palette })])),
+    [colorways, thumbnailDesign]
+  );
+
+  const chosenCount = colorways.filter((colorway) => selected.includes(colorway.id)).length;
+
+  const toggle = (list: string[], id: string, checked: boolean) =>
+    checked ? [...list, id] : list.filter((item) => item !== id);
+
+  const handleSaveColorway = async (colorway: Colorway) => {
+    const newPalette = await yarnPaletteService.createPalette({
+      name: colorway.label,
+      colors: toYarnColors(colorway.palette),
+    });
+
+    if (newPalette) {
+      toast.success(`Saved "${colorway.label}" to the palette library`);
+    } else {
+      toast.error("Failed to save palette");
+    }
+  };
+
+  const handleExport = async () => {
+    const chosen = colorways.filter((colorway) => selected.includes(colorway.id));
+    if (chosen.length === 0) {
+      toast.error("Select the colorways to export");
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const rows = ['colorway,file,index,hex,yarn,code'];
+      const entries = [];
+
+      for (const [n, colorway] of chosen.entries()) {
+        const file = `colorway-${String(n + 1).padStart(2, '0')}.png`;
+        entries.push({ name: file, data: await encodeIndexedPng({ ...design, palette: colorway.palette }, { resolution }) });
+
+        for (let i = 0; i < getPaletteSize(colorway); i++) {
+          const yarn = colorway.yarns?.[i];
+          const fields = [colorway.label, file, String(i), formatHexColor(colorway.palette, i), yarn?.name ?? '', yarn?.code ?? ''];
+          rows.push(fields.map((field) => (/[",\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field)).join(','));
+        }
+      }
+
+      entries.push({ name: 'colorways.csv', data: new TextEncoder().encode(rows.join('\n') + '\n') });
+      onDownload(new Blob([createZip(entries)], { type: 'application/zip' }), 'zip');
+    } catch (error) {
+      console.error("Error exporting colorways:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export colorways");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          <SwatchBook className="h-5 w-5" />
+          Colorways
+        </CardTitle>
+        <CardDescription>
+          See the processed design in alternative palettes and export the chosen ones together
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Rule</Label>
+            <Select value={rule} onValueChange={(value) => setRule(value as HarmonyRule)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HARMONY_RULE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="colorwayCount">Generated colorways</Label>
+            <Input
+              id="colorwayCount"
+              type="number"
+              min="1"
+              max={MAX_COLORWAYS}
+              value={count}
+              onChange={(e) => setCount(Math.min(MAX_COLORWAYS, Math.max(1, parseInt(e.target.value) || 1)))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Saved palettes</Label>
+            {palettes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No yarn palettes saved yet.</p>
+            ) : (
+              <div className="max-h-24 overflow-y-auto space-y-1">
+                {palettes.map((palette) => (
+                  <div key={palette.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      id={`colorway-${palette.id}`}
+                      checked={savedIds.includes(palette.id)}
+                      onCheckedChange={(checked) => setSavedIds(toggle(savedIds, palette.id, checked === true))}
+                    />
+                    <Label htmlFor={`colorway-${palette.id}`} className="font-normal">
+                      {palette.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {colorways.map((colorway) => (
+            <div key={colorway.id} className="rounded border p-2 space-y-2">
+              <img src={thumbnails.get(colorway.id)} alt={colorway.label} className="w-full rounded border" />
+              <div className="flex h-3 overflow-hidden rounded">
+                {Array.from({ length: getPaletteSize(colorway) }, (_, i) => (
+                  <div
+                    key={i}
+                    className="flex-1"
+                    style={{ backgroundColor: formatHexColor(colorway.palette, i) }}
+                    title={colorway.yarns ? `${colorway.yarns[i].name} ${colorway.yarns[i].code}`.trim() : formatHexColor(colorway.palette, i)}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Checkbox
+                    id={`export-${colorway.id}`}
+                    checked={selected.includes(colorway.id)}
+                    onCheckedChange={(checked) => setSelected(toggle(selected, colorway.id, checked === true))}
+                  />
+                  <Label htmlFor={`export-${colorway.id}`} className="truncate text-sm font-normal">
+                    {colorway.label}
+                  </Label>
+                </div>
+                {!colorway.yarns && colorway.id !== 'original' && (
+                  <Button size="sm" variant="ghost" onClick={() => handleSaveColorway(colorway)} title="Save to the palette library">
+                    <Save className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2 justify-center">
+          <Button variant="outline" onClick={() => setSelected(colorways.map((colorway) => colorway.id))}>
+            Select All
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={exporting || chosenCount === 0}
+            className="flex items-center gap-2 bg-gradient-primary"
+          >
+            <Download className="h-4 w-4" />
+            Export {chosenCount} Colorway{chosenCount === 1 ? "" : "s"} (ZIP)
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
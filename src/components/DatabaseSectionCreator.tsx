@@ -2,22 +2,51 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Trash2, Edit, Save, X, Users, Globe } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Trash2, Edit, Save, X, Users, Globe, Plus } from "lucide-react";
 import { toast } from "sonner";
-import { pixelSectionService, type PixelSection } from "@/lib/supabase";
+import { pixelSectionService, type PixelSection, type SectionKind, type SliceOrientation } from "@/lib/supabase";
+import { validatePattern, type WeaveAxis } from "@/lib/engine";
+import { BlockPatternEditor } from "@/components/BlockPatternEditor";
 
 interface DatabaseSectionCreatorProps {
-  onSectionSelect: (section: PixelSection | null) => void;
-  selectedSection: PixelSection | null;
+  onSequenceChange: (axis: WeaveAxis, sections: PixelSection[]) => void;
+  // Sections laid out across consecutive slices, usually just one
+  warpSections: PixelSection[];
+  weftSections: PixelSection[];
+  blockSection: PixelSection | null;
+  onBlockSelect: (section: PixelSection | null) => void;
 }
 
-export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: DatabaseSectionCreatorProps) => {
+// Sections go to the axis matching their default orientation unless the user picks one explicitly
+const defaultAxis = (section: PixelSection): WeaveAxis =>
+  section.orientation === "horizontal" ? "weft" : "warp";
+
+// Block patterns have one entry per cell of the size × size tile
+const patternLength = (kind: SectionKind | undefined, size: number) => (kind === "block" ? size * size : size);
+
+export const DatabaseSectionCreator = ({
+  onSequenceChange,
+  warpSections,
+  weftSections,
+  blockSection,
+  onBlockSelect,
+}: DatabaseSectionCreatorProps) => {
   const [sections, setSections] = useState<PixelSection[]>([]);
   const [loading, setLoading] = useState(true);
   const [newSectionSize, setNewSectionSize] = useState<number>(6);
   const [newSectionName, setNewSectionName] = useState<string>("");
   const [newSectionPattern, setNewSectionPattern] = useState<string[]>([]);
+  const [newSectionOrientation, setNewSectionOrientation] = useState<SliceOrientation>("vertical");
+  const [newSectionKind, setNewSectionKind] = useState<SectionKind>("column");
+  const [newCellSize, setNewCellSize] = useState<number>(1);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editPattern, setEditPattern] = useState<string[]>([]);
 
@@ -35,10 +64,10 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
     };
   }, []);
 
-  // Initialize pattern inputs when size changes
+  // Initialize pattern inputs when size or kind changes
   useEffect(() => {
-    setNewSectionPattern(Array(newSectionSize).fill(""));
-  }, [newSectionSize]);
+    setNewSectionPattern(Array(patternLength(newSectionKind, newSectionSize)).fill(""));
+  }, [newSectionSize, newSectionKind]);
 
   const loadSections = async () => {
     setLoading(true);
@@ -56,26 +85,21 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
     const pattern = newSectionPattern.map(p => parseInt(p));
     
     // Validate pattern
-    if (pattern.some(isNaN) || pattern.some(p => p < 1 || p > newSectionSize)) {
-      toast.error(`Pattern must contain numbers between 1 and ${newSectionSize}`);
-      return;
-    }
-
-    // Check for duplicates
-    if (new Set(pattern).size !== pattern.length) {
-      toast.error("Pattern cannot contain duplicate numbers");
+    const error = validatePattern(pattern, patternLength(newSectionKind, newSectionSize));
+    if (error) {
+      toast.error(error);
       return;
     }
 
-    const newSection = await pixelSectionService.createSection({
-      name: newSectionName,
-      size: newSectionSize,
-      pattern
-    });
+    const newSection = await pixelSectionService.createSection(
+      newSectionKind === "block"
+        ? { name: newSectionName, size: newSectionSize, pattern, kind: "block", cell_size: newCellSize }
+        : { name: newSectionName, size: newSectionSize, pattern, kind: "column", orientation: newSectionOrientation }
+    );
 
     if (newSection) {
       setNewSectionName("");
-      setNewSectionPattern(Array(newSectionSize).fill(""));
+      setNewSectionPattern(Array(patternLength(newSectionKind, newSectionSize)).fill(""));
       toast.success("Section created and shared globally!");
       loadSections(); // Refresh the list
     } else {
@@ -87,8 +111,14 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
     const success = await pixelSectionService.deleteSection(id);
     
     if (success) {
-      if (selectedSection?.id === id) {
-        onSectionSelect(null);
+      if (warpSections.some(s => s.id === id)) {
+        onSequenceChange("warp", warpSections.filter(s => s.id !== id));
+      }
+      if (weftSections.some(s => s.id === id)) {
+        onSequenceChange("weft", weftSections.filter(s => s.id !== id));
+      }
+      if (blockSection?.id === id) {
+        onBlockSelect(null);
       }
       toast.success("Section deleted");
       loadSections(); // Refresh the list
@@ -109,14 +139,9 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
     if (!section) return;
 
     // Validate pattern
-    if (pattern.some(isNaN) || pattern.some(p => p < 1 || p > section.size)) {
-      toast.error(`Pattern must contain numbers between 1 and ${section.size}`);
-      return;
-    }
-
-    // Check for duplicates
-    if (new Set(pattern).size !== pattern.length) {
-      toast.error("Pattern cannot contain duplicate numbers");
+    const error = validatePattern(pattern, patternLength(section.kind, section.size));
+    if (error) {
+      toast.error(error);
       return;
     }
 
@@ -131,6 +156,23 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
     }
   };
 
+  const sequenceFor = (axis: WeaveAxis) => (axis === "warp" ? warpSections : weftSections);
+
+  // Selecting a section replaces the sequence; selecting the only section again clears it
+  const handleAxisToggle = (axis: WeaveAxis, section: PixelSection) => {
+    const current = sequenceFor(axis);
+    const isOnly = current.length === 1 && current[0].id === section.id;
+    onSequenceChange(axis, isOnly ? [] : [section]);
+  };
+
+  const handleAppendToSequence = (axis: WeaveAxis, section: PixelSection) => {
+    onSequenceChange(axis, [...sequenceFor(axis), section]);
+  };
+
+  const handleRemoveFromSequence = (axis: WeaveAxis, index: number) => {
+    onSequenceChange(axis, sequenceFor(axis).filter((_, i) => i !== index));
+  };
+
   const handleCancelEdit = () => {
     setEditingId(null);
     setEditPattern([]);
@@ -177,7 +219,7 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div>
               <Label htmlFor="sectionName">Section Name</Label>
               <Input
@@ -188,20 +230,73 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
               />
             </div>
             <div>
-              <Label htmlFor="sectionSize">Pattern Size</Label>
+              <Label htmlFor="sectionKind">Kind</Label>
+              <Select
+                value={newSectionKind}
+                onValueChange={(value) => {
+                  const kind = value as SectionKind;
+                  setNewSectionKind(kind);
+                  // Keep block grids to a size that fits the editor
+                  if (kind === "block") setNewSectionSize(Math.min(newSectionSize, 8));
+                }}
+              >
+                <SelectTrigger id="sectionKind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="column">Column (1-D)</SelectItem>
+                  <SelectItem value="block">Block (2-D)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="sectionSize">{newSectionKind === "block" ? "Block Size (N×N)" : "Pattern Size"}</Label>
               <Input
                 id="sectionSize"
                 type="number"
                 min="2"
-                max="24"
+                max={newSectionKind === "block" ? "8" : "24"}
                 value={newSectionSize}
-                onChange={(e) => setNewSectionSize(parseInt(e.target.value) || 6)}
+                onChange={(e) => setNewSectionSize(parseInt(e.target.value) || (newSectionKind === "block" ? 2 : 6))}
               />
             </div>
+            {newSectionKind === "block" ? (
+              <div>
+                <Label htmlFor="cellSize">Cell Size (px)</Label>
+                <Input
+                  id="cellSize"
+                  type="number"
+                  min="1"
+                  value={newCellSize}
+                  onChange={(e) => setNewCellSize(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              </div>
+            ) : (
+            <div>
+              <Label htmlFor="sectionOrientation">Default Orientation</Label>
+              <Select
+                value={newSectionOrientation}
+                onValueChange={(value) => setNewSectionOrientation(value as SliceOrientation)}
+              >
+                <SelectTrigger id="sectionOrientation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="vertical">Vertical (columns)</SelectItem>
+                  <SelectItem value="horizontal">Horizontal (rows)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            )}
           </div>
 
           <div>
-            <Label>Pixel Order Pattern</Label>
+            <Label>{newSectionKind === "block" ? "Cell Order Pattern" : "Pixel Order Pattern"}</Label>
+            {newSectionKind === "block" ? (
+              <div className="mt-2">
+                <BlockPatternEditor size={newSectionSize} value={newSectionPattern} onChange={setNewSectionPattern} />
+              </div>
+            ) : (
             <div className="grid gap-2 mt-2" style={{ gridTemplateColumns: `repeat(${Math.min(newSectionSize, 8)}, 1fr)` }}>
               {newSectionPattern.map((value, index) => (
                 <div key={index} className="space-y-1">
@@ -221,8 +316,11 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
                 </div>
               ))}
             </div>
+            )}
             <p className="text-xs text-muted-foreground mt-2">
-              Enter numbers 1-{newSectionSize} to define the column order for each vertical slice
+              {newSectionKind === "block"
+                ? `Enter numbers 1-${newSectionSize * newSectionSize} to name the source cell (counted row by row) copied into each cell of every ${newSectionSize}×${newSectionSize} tile`
+                : `Enter numbers 1-${newSectionSize} to define the ${newSectionOrientation === "horizontal" ? "row order for each horizontal band" : "column order for each vertical slice"}`}
             </p>
           </div>
 
@@ -238,6 +336,24 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
           <Globe className="h-5 w-5" />
           Global Pattern Library ({sections.length} patterns)
         </h3>
+        {(["warp", "weft"] as const).map((axis) => sequenceFor(axis).length > 1 && (
+          <div key={axis} className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium capitalize">{axis} sequence:</span>
+            {sequenceFor(axis).map((section, index) => (
+              <span key={index} className="flex items-center gap-1 bg-secondary px-2 py-1 rounded">
+                {section.name}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveFromSequence(axis, index)}
+                  aria-label={`Remove ${section.name} from ${axis} sequence`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            <span className="text-xs text-muted-foreground">Slice k uses section k mod {sequenceFor(axis).length}</span>
+          </div>
+        ))}
         {sections.length === 0 ? (
           <Card>
             <CardContent className="pt-6">
@@ -248,101 +364,180 @@ export const DatabaseSectionCreator = ({ onSectionSelect, selectedSection }: Dat
           </Card>
         ) : (
           <div className="space-y-3">
-            {sections.map((section) => (
-              <Card 
-                key={section.id} 
-                className={`cursor-pointer transition-all ${
-                  selectedSection?.id === section.id 
-                    ? 'ring-2 ring-primary shadow-elegant' 
-                    : 'hover:shadow-md'
-                }`}
-                onClick={() => onSectionSelect(section)}
-              >
-                <CardContent className="pt-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-3">
-                        <h4 className="font-medium text-foreground">{section.name}</h4>
-                        <span className="text-sm bg-secondary px-2 py-1 rounded">
-                          Size: {section.size}
-                        </span>
-                        <span className="text-xs text-muted-foreground">
-                          {new Date(section.created_at).toLocaleDateString()}
-                        </span>
-                      </div>
+            {sections.map((section) => {
+              const isWarp = warpSections.some(s => s.id === section.id);
+              const isWeft = weftSections.some(s => s.id === section.id);
+              const isBlock = section.kind === "block";
+              const isBlockSelected = blockSection?.id === section.id;
+
+              return (
+                <Card 
+                  key={section.id} 
+                  className={`cursor-pointer transition-all ${
+                    isWarp || isWeft || isBlockSelected
+                      ? 'ring-2 ring-primary shadow-elegant' 
+                      : 'hover:shadow-md'
+                  }`}
+                  onClick={() => (isBlock ? onBlockSelect(section) : onSequenceChange(defaultAxis(section), [section]))}
+                >
+                  <CardContent className="pt-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-3">
+                          <h4 className="font-medium text-foreground">{section.name}</h4>
+                          <span className="text-sm bg-secondary px-2 py-1 rounded">
+                            Size: {isBlock ? `${section.size}×${section.size}` : section.size}
+                          </span>
+                          <span className="text-sm bg-secondary px-2 py-1 rounded capitalize">
+                            {isBlock ? `Block · ${section.cell_size ?? 1}px cells` : section.orientation ?? "vertical"}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(section.created_at).toLocaleDateString()}
+                          </span>
+                        </div>
                       
-                      {editingId === section.id ? (
-                        <div className="mt-3 space-y-2">
-                          <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${Math.min(section.size, 8)}, 1fr)` }}>
-                            {editPattern.map((value, index) => (
-                              <Input
-                                key={index}
-                                value={value}
-                                onChange={(e) => {
-                                  const newPattern = [...editPattern];
-                                  newPattern[index] = e.target.value;
-                                  setEditPattern(newPattern);
+                        {editingId === section.id ? (
+                          <div className="mt-3 space-y-2">
+                            {isBlock ? (
+                              <BlockPatternEditor size={section.size} value={editPattern} onChange={setEditPattern} compact />
+                            ) : (
+                            <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${Math.min(section.size, 8)}, 1fr)` }}>
+                              {editPattern.map((value, index) => (
+                                <Input
+                                  key={index}
+                                  value={value}
+                                  onChange={(e) => {
+                                    const newPattern = [...editPattern];
+                                    newPattern[index] = e.target.value;
+                                    setEditPattern(newPattern);
+                                  }}
+                                  className="text-center text-xs"
+                                />
+                              ))}
+                            </div>
+                            )}
+                            <div className="flex gap-2">
+                              <Button 
+                                size="sm" 
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleSaveEdit(section.id);
                                 }}
-                                className="text-center text-xs"
-                              />
-                            ))}
+                                className="bg-success"
+                              >
+                                <Save className="h-3 w-3" />
+                              </Button>
+                              <Button 
+                                size="sm" 
+                                variant="outline"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleCancelEdit();
+                                }}
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </div>
                           </div>
-                          <div className="flex gap-2">
-                            <Button 
-                              size="sm" 
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleSaveEdit(section.id);
-                              }}
-                              className="bg-success"
-                            >
-                              <Save className="h-3 w-3" />
-                            </Button>
-                            <Button 
-                              size="sm" 
+                        ) : (
+                          <div className="mt-2 text-sm text-muted-foreground">
+                            {isBlock ? (
+                              <div className="font-mono text-xs space-y-0.5">
+                                {Array.from({ length: section.size }, (_, row) => (
+                                  <div key={row}>
+                                    [{section.pattern.slice(row * section.size, (row + 1) * section.size).join(', ')}]
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <>Pattern: [{section.pattern.join(', ')}]</>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    
+                      <div className="flex gap-2">
+                        {isBlock ? (
+                        <Button
+                          size="sm"
+                          variant={isBlockSelected ? "default" : "outline"}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onBlockSelect(isBlockSelected ? null : section);
+                          }}
+                        >
+                          Block
+                        </Button>
+                        ) : (
+                        <>
+                        <Button
+                          size="sm"
+                          variant={isWarp ? "default" : "outline"}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleAxisToggle("warp", section);
+                          }}
+                        >
+                          Warp
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={isWeft ? "default" : "outline"}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleAxisToggle("weft", section);
+                          }}
+                        >
+                          Weft
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              size="sm"
                               variant="outline"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleCancelEdit();
-                              }}
+                              onClick={(e) => e.stopPropagation()}
+                              aria-label="Add to sequence"
                             >
-                              <X className="h-3 w-3" />
+                              <Plus className="h-3 w-3" />
                             </Button>
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="mt-2 text-sm text-muted-foreground">
-                          Pattern: [{section.pattern.join(', ')}]
-                        </div>
-                      )}
-                    </div>
-                    
-                    <div className="flex gap-2">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleEditSection(section);
-                        }}
-                      >
-                        <Edit className="h-3 w-3" />
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="destructive"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteSection(section.id);
-                        }}
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent onClick={(e) => e.stopPropagation()}>
+                            <DropdownMenuItem onClick={() => handleAppendToSequence("warp", section)}>
+                              Append to warp sequence
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleAppendToSequence("weft", section)}>
+                              Append to weft sequence
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                        </>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleEditSection(section);
+                          }}
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteSection(section.id);
+                          }}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, Download, Grid3x3 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  deriveDraft,
+  drawdownColors,
+  formatHexColor,
+  getPaletteSize,
+  indexedDrawdown,
+  thresholdDrawdown,
+  validateShaftCount,
+  type Drawdown,
+  type IndexedImage,
+  type PixelBuffer,
+} from "@/lib/engine";
+import { encodeWif, toWifDraft } from "@/lib/formats/wif";
+import { encodeLiftplanCsv, encodeLiftplanText } from "@/lib/formats/liftplan";
+
+interface DraftExportProps {
+  image: PixelBuffer;
+  // Palette indices of the processed image, when it has them
+  indexed?: IndexedImage;
+  // Used as the draft title
+  name: string;
+  onDownload: (blob: Blob, extension: string) => void;
+}
+
+// Palette entries darker than mid-grey raise the warp until the user picks others
+const darkEntries = (palette: Uint8Array): number[] =>
+  Array.from({ length: getPaletteSize({ palette }) }, (_, i) => i).filter(
+    (i) => 0.299 * palette[i * 3] + 0.587 * palette[i * 3 + 1] + 0.114 * palette[i * 3 + 2] < 128
+  );
+
+const renderDrawdown = ({ width, height, data }: Drawdown): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const pixels = new ImageData(width, height);
+  data.forEach((raised, i) => {
+    const value = raised ? 0 : 255;
+    pixels.data.set([value, value, value, 255], i * 4);
+  });
+  canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Turns the processed image into a weaving draft: a binary drawdown (warp raised where the
+// image is dark, or where chosen palette colors are), with a shaft for every distinct end
+// and a treadle for every distinct pick. The liftplan export also checks the design fits the
+// loom's shafts.
+export const DraftExport = ({ image, indexed, name, onDownload }: DraftExportProps) => {
+  const [source, setSource] = useState<'threshold' | 'palette'>(indexed ? 'palette' : 'threshold');
+  const [threshold, setThreshold] = useState(128);
+  const [raised, setRaised] = useState<number[]>([]);
+  const [shafts, setShafts] = useState(16);
+  const [liftplanFormat, setLiftplanFormat] = useState<'csv' | 'txt' | 'wif'>('csv');
+
+  // A new palette means earlier choices point at different colors
+  const palette = indexed?.palette;
+  useEffect(() => {
+    setRaised(palette ? darkEntries(palette) : []);
+  }, [palette]);
+
+  const usePalette = source === 'palette' && indexed !== undefined;
+
+  const drawdown = useMemo(
+    () => (usePalette ? indexedDrawdown(indexed, raised) : thresholdDrawdown(image, threshold)),
+    [usePalette, indexed, raised, image, threshold]
+  );
+  const loom = useMemo(() => deriveDraft(drawdown), [drawdown]);
+  const preview = useMemo(() => renderDrawdown(drawdown), [drawdown]);
+  const shaftError = validateShaftCount(loom, shafts);
+
+  const writeWif = (liftplan: boolean) => {
+    const colors = drawdownColors(image, drawdown);
+    return encodeWif(toWifDraft(loom, { liftplan, title: name, shafts: liftplan ? shafts : undefined }), {
+      warpColor: colors.warp,
+      weftColor: colors.weft,
+    });
+  };
+
+  const downloadWif = () => {
+    try {
+      onDownload(new Blob([writeWif(false)], { type: 'text/plain' }), 'wif');
+    } catch (error) {
+      console.error("Error exporting WIF:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export WIF");
+    }
+  };
+
+  const downloadLiftplan = () => {
+    if (shaftError) {
+      toast.error(shaftError);
+      return;
+    }
+
+    try {
+      const { liftplan } = toWifDraft(loom, { liftplan: true });
+      const text =
+        liftplanFormat === 'csv'
+          ? encodeLiftplanCsv(liftplan, shafts)
+          : liftplanFormat === 'txt'
+            ? encodeLiftplanText(liftplan, shafts)
+            : writeWif(true);
+      onDownload(new Blob([text], { type: liftplanFormat === 'csv' ? 'text/csv' : 'text/plain' }), liftplanFormat);
+    } catch (error) {
+      console.error("Error exporting liftplan:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export liftplan");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5" />
+          Weaving Draft
+        </CardTitle>
+        <CardDescription>
+          Export the processed design as a WIF draft for dobby and jacquard software, or as a dobby liftplan
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="drawdownSource">Warp Raised Where</Label>
+            <Select value={usePalette ? 'palette' : 'threshold'} onValueChange={(value) => setSource(value as typeof source)}>
+              <SelectTrigger id="drawdownSource">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="threshold">Darker than a threshold</SelectItem>
+                <SelectItem value="palette" disabled={!indexed}>Chosen palette colors</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {usePalette ? (
+            <div className="space-y-2">
+              <Label>Raised Colors</Label>
+              <div className="flex flex-wrap gap-2">
+                {Array.from({ length: getPaletteSize(indexed) }, (_, i) => (
+                  <label key={i} className="flex items-center gap-1" title={formatHexColor(indexed.palette, i)}>
+                    <Checkbox
+                      checked={raised.includes(i)}
+                      onCheckedChange={(checked) =>
+                        setRaised(checked === true ? [...raised, i] : raised.filter((index) => index !== i))
+                      }
+                    />
+                    <span className="h-4 w-4 rounded border" style={{ backgroundColor: formatHexColor(indexed.palette, i) }} />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="drawdownThreshold">Threshold (0-255)</Label>
+              <Input
+                id="drawdownThreshold"
+                type="number"
+                min="0"
+                max="256"
+                value={threshold}
+                onChange={(e) => setThreshold(Math.min(256, Math.max(0, parseInt(e.target.value) || 0)))}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="liftplanShafts">Loom Shafts</Label>
+            <Input
+              id="liftplanShafts"
+              type="number"
+              min="1"
+              value={shafts}
+              onChange={(e) => setShafts(Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+        </div>
+
+        <div className="text-center space-y-2">
+          <img
+            src={preview}
+            alt="Drawdown"
+            className="max-w-full max-h-64 mx-auto rounded border"
+            style={{ imageRendering: 'pixelated' }}
+          />
+          <p className="text-sm text-muted-foreground">
+            {drawdown.width} ends · {drawdown.height} picks · {loom.shafts} shafts · {loom.treadles} treadles
+          </p>
+        </div>
+
+        {shaftError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {shaftError}. Simplify the design or use a loom with more shafts to export a liftplan.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap gap-2 justify-center">
+          <Button onClick={downloadWif} className="flex items-center gap-2 bg-gradient-primary">
+            <Download className="h-4 w-4" />
+            Download WIF
+          </Button>
+          <div className="flex items-center gap-1">
+            <Button variant="outline" onClick={downloadLiftplan} disabled={shaftError !== null} className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              Download Liftplan
+            </Button>
+            <Select value={liftplanFormat} onValueChange={(value) => setLiftplanFormat(value as typeof liftplanFormat)}>
+              <SelectTrigger className="w-32" aria-label="Liftplan format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="txt">Plain text</SelectItem>
+                <SelectItem value="wif">WIF liftplan</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
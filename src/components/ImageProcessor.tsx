@@ -1,26 +1,193 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Download, Wand2, Eye } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Wand2, Eye, X, ArrowLeftRight, AlertTriangle, RotateCcw, ListPlus, Layers } from "lucide-react";
 import { toast } from "sonner";
 import type { PixelSection } from "@/lib/supabase";
+import {
+  countPaletteUsage,
+  diffPixelBuffers,
+  expandIndexed,
+  fromIndexPlane,
+  getPaletteSize,
+  getOutputLength,
+  getRemainder,
+  invertPipeline,
+  layoutSlices,
+  isLossless,
+  toIndexPlane,
+  type BlockPattern,
+  type IndexedImage,
+  type PipelineStep,
+  type PixelBuffer,
+  type PixelDiff,
+  type ProcessingDirection,
+  type RemainderStrategy,
+  type RowOffset,
+  type SectionSequence,
+} from "@/lib/engine";
+import { ProcessingCancelledError, useProcessingWorker } from "@/hooks/use-processing-worker";
+import { PipelineSteps, type ProcessingStep } from "@/components/PipelineSteps";
+import { SliceBands } from "@/components/SliceBands";
+import { formatSequence, REMAINDER_OPTIONS } from "@/lib/processing-options";
+import { encodeBmp, type BmpBitDepth } from "@/lib/formats/bmp";
+import { encodeIndexedPng, setPngResolution } from "@/lib/formats/png";
+import { setJpegResolution } from "@/lib/formats/jpeg";
+import { encodeTiff, type TiffColorMode, type TiffCompression } from "@/lib/formats/tiff";
+import { DEFAULT_RESOLUTION, type Resolution, type ResolutionUnit } from "@/lib/formats/resolution";
+import { PaletteSwatches } from "@/components/PaletteSwatches";
+import { ResolutionSettings } from "@/components/ResolutionSettings";
+import { ColorwayGenerator } from "@/components/ColorwayGenerator";
+import { DraftExport } from "@/components/DraftExport";
+import { weaveIndexed, type StructureMapping } from "@/lib/structure-mapping";
 
 interface ImageProcessorProps {
   originalImage: File | null;
   originalImageData: ImageData | null;
-  selectedSection: PixelSection | null;
+  // Palette indices and color table of the upload, when it has at most 256 colors
+  sourceIndexed?: IndexedImage;
+  // Physical resolution stored in the upload, used as the default for downloads
+  sourceResolution?: Resolution;
+  // Two or more same-sized images, the first being originalImageData, woven together column by column
+  interleaveSources?: ImageData[];
+  warpSections: PixelSection[];
+  weftSections: PixelSection[];
+  blockSection?: PixelSection | null;
+  // Weave structures to fill the processed design's colors with, as a final step
+  weaveAfter?: StructureMapping;
+  onSwapAxes?: () => void;
 }
 
-export const ImageProcessor = ({ originalImage, originalImageData, selectedSection }: ImageProcessorProps) => {
-  const [processedImageData, setProcessedImageData] = useState<ImageData | null>(null);
+interface StepResult {
+  imageData: ImageData;
+  previewUrl: string;
+  // Set when the pipeline ran on palette indices
+  indexed?: IndexedImage;
+}
+
+const toPatterns = (sections: PixelSection[]): SectionSequence | undefined =>
+  sections.length > 0 ? sections.map(({ size, pattern }) => ({ size, pattern })) : undefined;
+
+const toBlockPattern = (section: PixelSection | null): BlockPattern | undefined =>
+  section ? { size: section.size, pattern: section.pattern, cellSize: section.cell_size ?? 1 } : undefined;
+
+const toPipelineStep = ({ warp, weft, block, remainder, direction, rowOffset }: ProcessingStep): PipelineStep => ({
+  warp: toPatterns(warp),
+  weft: toPatterns(weft),
+  block: toBlockPattern(block),
+  remainder,
+  direction,
+  rowOffset: rowOffset ?? undefined,
+});
+
+// Index planes are expanded through the palette for display and RGB exports
+const toStepResult = (buffer: PixelBuffer, palette?: Uint8Array): StepResult => {
+  const indexed = palette ? fromIndexPlane(buffer, palette) : undefined;
+  const { width, height, data } = indexed ? expandIndexed(indexed) : buffer;
+  const imageData = new ImageData(data, width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+
+  return { imageData, previewUrl: canvas.toDataURL('image/png'), indexed };
+};
+
+export const ImageProcessor = ({
+  originalImage,
+  originalImageData,
+  sourceIndexed,
+  sourceResolution,
+  interleaveSources = [],
+  warpSections,
+  weftSections,
+  blockSection = null,
+  weaveAfter,
+  onSwapAxes,
+}: ImageProcessorProps) => {
+  const [stepResults, setStepResults] = useState<StepResult[]>([]);
   const [processing, setProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [steps, setSteps] = useState<ProcessingStep[]>([]);
+  const [resultSuffix, setResultSuffix] = useState("processed");
+  // Slices of the last step, drawn over the final result
+  const [resultSlices, setResultSlices] = useState<{ warp?: SectionSequence; weft?: SectionSequence }>({});
+  const [showBands, setShowBands] = useState(false);
+  const [remainder, setRemainder] = useState<RemainderStrategy>("keep");
+  const [direction, setDirection] = useState<ProcessingDirection>("forward");
+  const [twillEnabled, setTwillEnabled] = useState(false);
+  const [twill, setTwill] = useState<RowOffset>({ step: 1, repeat: 1 });
+  const [roundTrip, setRoundTrip] = useState<PixelDiff | null>(null);
+  const [bmpBitDepth, setBmpBitDepth] = useState<BmpBitDepth>(24);
+  const [bmpTopDown, setBmpTopDown] = useState(false);
+  const [tiffColorMode, setTiffColorMode] = useState<TiffColorMode>('rgb');
+  const [tiffCompression, setTiffCompression] = useState<TiffCompression>('lzw');
+  const [keepPalette, setKeepPalette] = useState(true);
+  const [resolution, setResolution] = useState<Resolution>(sourceResolution ?? DEFAULT_RESOLUTION);
+  const [resolutionUnit, setResolutionUnit] = useState<ResolutionUnit>('dpi');
+  const { run: runWorker, cancel: cancelWorker } = useProcessingWorker();
+
+  // A round-trip result only describes the settings it was run with
+  useEffect(() => {
+    setRoundTrip(null);
+  }, [originalImageData, interleaveSources.length, warpSections, weftSections, blockSection, remainder, twillEnabled, twill, steps]);
+
+  // The current selection, used on its own when the pipeline is empty
+  const currentStep: ProcessingStep | null = warpSections.length > 0 || weftSections.length > 0 || blockSection
+    ? {
+        id: "current",
+        warp: warpSections,
+        weft: weftSections,
+        block: blockSection,
+        remainder,
+        direction,
+        rowOffset: twillEnabled && warpSections.length > 0 ? twill : null,
+      }
+    : null;
+  const effectiveSteps = steps.length > 0 ? steps : currentStep ? [currentStep] : [];
+  // Interleaving can't be undone: there is no single image to restore
+  const interleaving = interleaveSources.length > 1;
+
+  useEffect(() => {
+    if (interleaving) setDirection("forward");
+  }, [interleaving]);
+
+  useEffect(() => {
+    setResolution(sourceResolution ?? DEFAULT_RESOLUTION);
+  }, [sourceResolution]);
+
+  // Few-color uploads are processed as palette indices, so reordering never touches the colors
+  const indexedSource = !interleaving ? sourceIndexed : undefined;
+  const processingSource: PixelBuffer | PixelBuffer[] | null = indexedSource
+    ? toIndexPlane(indexedSource)
+    : interleaving ? interleaveSources : originalImageData;
+
+  // Indexed uploads default to saving with the same depth and palette
+  const paletteColors = indexedSource ? getPaletteSize(indexedSource) : 0;
+  useEffect(() => {
+    if (paletteColors === 0) return;
+    setBmpBitDepth(paletteColors <= 2 ? 1 : paletteColors <= 16 ? 4 : 8);
+    setKeepPalette(true);
+  }, [paletteColors]);
+
+  const addStep = () => {
+    if (!currentStep) {
+      toast.error("Select a warp, weft or block section to add a step");
+      return;
+    }
+
+    setSteps([...steps, { ...currentStep, id: crypto.randomUUID() }]);
+  };
 
   const processImage = async () => {
-    if (!originalImageData || !selectedSection) {
-      toast.error("Please upload an image and select a pattern section");
+    if (!originalImageData || effectiveSteps.length === 0) {
+      toast.error("Please upload an image and select a warp, weft or block section");
       return;
     }
 
@@ -28,91 +195,169 @@ export const ImageProcessor = ({ originalImage, originalImageData, selectedSecti
     setProgress(0);
 
     try {
-      const { width, height, data } = originalImageData;
-      const sectionSize = selectedSection.size;
-      const pattern = selectedSection.pattern;
-
-      // Create new image data
-      const newImageData = new ImageData(width, height);
-      const newData = newImageData.data;
+      const results = await runWorker(
+        processingSource ?? originalImageData,
+        { steps: effectiveSteps.map(toPipelineStep) },
+        (completed, total) => setProgress((completed / total) * 100)
+      );
 
-      // Copy original data first
-      for (let i = 0; i < data.length; i++) {
-        newData[i] = data[i];
+      const newResults = results.map((result) => toStepResult(result, indexedSource?.palette));
+      const processed = newResults[newResults.length - 1].indexed;
+      if (weaveAfter && processed) {
+        const woven = weaveIndexed(processed, weaveAfter);
+        newResults.push(toStepResult(toIndexPlane(woven), woven.palette));
+      } else if (weaveAfter) {
+        toast.warning("Weave structures need palette colors; reduce colors before processing");
       }
+      setStepResults(newResults);
+      const lastStep = effectiveSteps[effectiveSteps.length - 1];
+      setResultSlices({ warp: toPatterns(lastStep.warp), weft: toPatterns(lastStep.weft) });
+      setResultSuffix(effectiveSteps.every((step) => step.direction === "inverse") ? "restored" : "processed");
 
-      // Process image in vertical sections
-      const numCompleteSlices = Math.floor(width / sectionSize);
+      toast.success(
+        effectiveSteps.length > 1
+          ? `Pipeline completed: ${effectiveSteps.length} steps`
+          : direction === "inverse" ? "Image restored!" : "Image processing completed!"
+      );
       
-      for (let slice = 0; slice < numCompleteSlices; slice++) {
-        const sliceStartX = slice * sectionSize;
-        
-        // For each row in this slice
-        for (let y = 0; y < height; y++) {
-          // Store original pixel data for this row of the slice
-          const originalRowData: number[][] = [];
-          
-          for (let x = 0; x < sectionSize; x++) {
-            const pixelIndex = ((y * width) + (sliceStartX + x)) * 4;
-            originalRowData[x] = [
-              data[pixelIndex],     // R
-              data[pixelIndex + 1], // G
-              data[pixelIndex + 2], // B
-              data[pixelIndex + 3]  // A
-            ];
-          }
-          
-          // Apply the reordering pattern
-          for (let x = 0; x < sectionSize; x++) {
-            const sourceColumn = pattern[x] - 1; // Convert to 0-based index
-            const targetPixelIndex = ((y * width) + (sliceStartX + x)) * 4;
-            
-            // Copy pixels according to pattern
-            newData[targetPixelIndex] = originalRowData[sourceColumn][0];     // R
-            newData[targetPixelIndex + 1] = originalRowData[sourceColumn][1]; // G
-            newData[targetPixelIndex + 2] = originalRowData[sourceColumn][2]; // B
-            newData[targetPixelIndex + 3] = originalRowData[sourceColumn][3]; // A
-          }
-        }
-        
-        // Update progress
-        setProgress(((slice + 1) / numCompleteSlices) * 100);
-        
-        // Allow UI to update
-        await new Promise(resolve => setTimeout(resolve, 1));
+    } catch (error) {
+      if (error instanceof ProcessingCancelledError) {
+        toast.info("Processing cancelled");
+        return;
       }
+      console.error("Error processing image:", error);
+      toast.error("Failed to process image");
+    } finally {
+      setProcessing(false);
+      setProgress(0);
+    }
+  };
 
-      setProcessedImageData(newImageData);
-      
-      // Create preview
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      
-      if (ctx) {
-        ctx.putImageData(newImageData, 0, 0);
-        const url = canvas.toDataURL('image/png');
-        setPreviewUrl(url);
-      }
+  // Weaves, un-weaves and compares against the upload to confirm the settings are lossless
+  const checkRoundTrip = async () => {
+    if (!originalImageData || effectiveSteps.length === 0) {
+      toast.error("Please upload an image and select a warp, weft or block section");
+      return;
+    }
 
-      toast.success("Image processing completed!");
-      
+    setProcessing(true);
+    setProgress(0);
+    setRoundTrip(null);
+
+    try {
+      const pipeline = effectiveSteps.map(toPipelineStep);
+      const source = indexedSource ? toIndexPlane(indexedSource) : originalImageData;
+      const woven = await runWorker(
+        source,
+        { steps: pipeline },
+        (completed, total) => setProgress((completed / total) * 50)
+      );
+      const restored = await runWorker(
+        woven[woven.length - 1],
+        { steps: invertPipeline(pipeline) },
+        (completed, total) => setProgress(50 + (completed / total) * 50)
+      );
+      const diff = diffPixelBuffers(source, restored[restored.length - 1]);
+
+      setRoundTrip(diff);
+      if (isLossless(diff)) {
+        toast.success("Round trip is lossless");
+      } else {
+        toast.warning("Round trip changed the image");
+      }
     } catch (error) {
-      console.error("Error processing image:", error);
-      toast.error("Failed to process image");
+      if (error instanceof ProcessingCancelledError) {
+        toast.info("Round trip check cancelled");
+        return;
+      }
+      console.error("Error checking round trip:", error);
+      toast.error("Failed to check round trip");
     } finally {
       setProcessing(false);
       setProgress(0);
     }
   };
 
-  const downloadImage = (format: 'png' | 'jpg' | 'bmp') => {
+  const processedImageData = stepResults.length > 0 ? stepResults[stepResults.length - 1].imageData : null;
+  const processedIndexed = stepResults.length > 0 ? stepResults[stepResults.length - 1].indexed : undefined;
+  const writePalette = processedIndexed !== undefined && keepPalette;
+
+  const saveDownload = (blob: Blob, extension: string) => {
+    if (!originalImage) return;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+
+    const originalName = originalImage.name.replace(/\.[^/.]+$/, "");
+    link.download = `${originalName}_${resultSuffix}.${extension}`;
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    toast.success(`Downloaded as ${extension.toUpperCase()}`);
+  };
+
+  // Canvases can't encode BMP (browsers silently fall back to PNG), so it is written by hand
+  const downloadBmp = () => {
+    if (!processedImageData || !originalImage) {
+      toast.error("No processed image to download");
+      return;
+    }
+
+    try {
+      const bytes = encodeBmp(writePalette && bmpBitDepth <= 8 ? processedIndexed : processedImageData, {
+        bitDepth: bmpBitDepth,
+        topDown: bmpTopDown,
+        resolution,
+      });
+      saveDownload(new Blob([bytes], { type: 'image/bmp' }), 'bmp');
+    } catch (error) {
+      console.error("Error encoding BMP:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create BMP file");
+    }
+  };
+
+  const downloadTiff = () => {
     if (!processedImageData || !originalImage) {
       toast.error("No processed image to download");
       return;
     }
 
+    try {
+      const bytes = encodeTiff(writePalette && tiffColorMode === 'palette' ? processedIndexed : processedImageData, {
+        colorMode: tiffColorMode,
+        compression: tiffCompression,
+        resolution,
+        resolutionUnit,
+      });
+      saveDownload(new Blob([bytes], { type: 'image/tiff' }), 'tif');
+    } catch (error) {
+      console.error("Error encoding TIFF:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create TIFF file");
+    }
+  };
+
+  const downloadImage = async (format: 'png' | 'jpg') => {
+    if (!processedImageData || !originalImage) {
+      toast.error("No processed image to download");
+      return;
+    }
+
+    // Canvases always write truecolor PNGs, so palette PNGs are encoded by hand
+    if (format === 'png' && writePalette) {
+      try {
+        const bytes = await encodeIndexedPng(processedIndexed, { resolution });
+        saveDownload(new Blob([bytes], { type: 'image/png' }), 'png');
+      } catch (error) {
+        console.error("Error encoding PNG:", error);
+        toast.error(error instanceof Error ? error.message : "Failed to create PNG file");
+      }
+      return;
+    }
+
     const canvas = document.createElement('canvas');
     canvas.width = processedImageData.width;
     canvas.height = processedImageData.height;
@@ -125,47 +370,34 @@ export const ImageProcessor = ({ originalImage, originalImageData, selectedSecti
 
     ctx.putImageData(processedImageData, 0, 0);
     
-    // Get the appropriate MIME type and extension
-    let mimeType: string;
-    let extension: string;
-    
-    switch (format) {
-      case 'jpg':
-        mimeType = 'image/jpeg';
-        extension = 'jpg';
-        break;
-      case 'bmp':
-        mimeType = 'image/bmp';
-        extension = 'bmp';
-        break;
-      default:
-        mimeType = 'image/png';
-        extension = 'png';
-    }
+    const mimeType = format === 'jpg' ? 'image/jpeg' : 'image/png';
 
-    canvas.toBlob((blob) => {
+    canvas.toBlob(async (blob) => {
       if (!blob) {
         toast.error("Failed to create download file");
         return;
       }
 
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      
-      const originalName = originalImage.name.replace(/\.[^/.]+$/, "");
-      link.download = `${originalName}_processed.${extension}`;
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-      
-      toast.success(`Downloaded as ${format.toUpperCase()}`);
+      // Canvas exports carry no resolution, so it is patched into the file afterwards
+      const bytes = new Uint8Array(await blob.arrayBuffer());
+      const withResolution = format === 'jpg' ? setJpegResolution(bytes, resolution, resolutionUnit) : setPngResolution(bytes, resolution);
+      saveDownload(new Blob([withResolution], { type: mimeType }), format);
     }, mimeType, format === 'jpg' ? 0.9 : undefined);
   };
 
-  const canProcess = originalImageData && selectedSection;
+  const canProcess = originalImageData && effectiveSteps.length > 0;
+
+  // Leftover columns / rows that don't fill a complete slice
+  const warpSequence = toPatterns(warpSections);
+  const weftSequence = toPatterns(weftSections);
+  const warpRemainder = originalImageData && warpSequence ? getRemainder(originalImageData.width, warpSequence) : 0;
+  const weftRemainder = originalImageData && weftSequence ? getRemainder(originalImageData.height, weftSequence) : 0;
+  const outputWidth = originalImageData && warpSequence
+    ? getOutputLength(originalImageData.width, warpSequence, remainder)
+    : originalImageData?.width;
+  const outputHeight = originalImageData && weftSequence
+    ? getOutputLength(originalImageData.height, weftSequence, remainder)
+    : originalImageData?.height;
 
   return (
     <div className="space-y-6">
@@ -176,13 +408,13 @@ export const ImageProcessor = ({ originalImage, originalImageData, selectedSecti
             Process Image
           </CardTitle>
           <CardDescription>
-            Apply the selected pixel reordering pattern to your uploaded image
+            Apply the warp pattern to columns and the weft pattern to rows of your uploaded image
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           {!canProcess && (
             <div className="text-center py-8 text-muted-foreground">
-              <p>Upload an image and select a pattern section to begin processing</p>
+              <p>Upload an image and select a warp, weft or block section to begin processing</p>
             </div>
           )}
           
@@ -192,28 +424,225 @@ export const ImageProcessor = ({ originalImage, originalImageData, selectedSecti
                 <div>
                   <p className="font-medium">Ready to process with:</p>
                   <p className="text-sm text-muted-foreground">
-                    Pattern: {selectedSection.name} (Size: {selectedSection.size})
+                    Warp (columns): {formatSequence(warpSections)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Weft (rows): {formatSequence(weftSections)}
                   </p>
+                  {blockSection && (
+                    <p className="text-sm text-muted-foreground">
+                      Block: {blockSection.name} ({blockSection.size}×{blockSection.size} of {blockSection.cell_size ?? 1}px cells)
+                    </p>
+                  )}
                   <p className="text-sm text-muted-foreground">
                     Image: {originalImageData.width}×{originalImageData.height} pixels
+                    {indexedSource && ` · ${paletteColors} palette colors`}
                   </p>
+                  {interleaving && (
+                    <p className="text-sm text-muted-foreground">
+                      Interleaving {interleaveSources.length} images: column i of each warp slice comes from image (i mod {interleaveSources.length}) + 1
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={direction}
+                    onValueChange={(value) => setDirection(value as ProcessingDirection)}
+                    disabled={processing}
+                  >
+                    <SelectTrigger className="w-40" aria-label="Processing mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="forward">Weave</SelectItem>
+                      <SelectItem value="inverse" disabled={interleaving}>Un-weave (inverse)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {onSwapAxes && (
+                    <Button
+                      variant="outline"
+                      onClick={onSwapAxes}
+                      disabled={processing}
+                      className="flex items-center gap-2"
+                    >
+                      <ArrowLeftRight className="h-4 w-4" />
+                      Swap Warp/Weft
+                    </Button>
+                  )}
+                  <Button 
+                    onClick={processImage} 
+                    disabled={processing}
+                    className="bg-gradient-creative"
+                  >
+                    {processing
+                      ? 'Processing...'
+                      : steps.length > 0
+                        ? `Run Pipeline (${steps.length})`
+                        : direction === "inverse" ? 'Restore Image' : 'Process Image'}
+                  </Button>
                 </div>
-                <Button 
-                  onClick={processImage} 
-                  disabled={processing}
-                  className="bg-gradient-creative"
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addStep}
+                  disabled={processing || !currentStep}
+                  className="flex items-center gap-2"
+                >
+                  <ListPlus className="h-3 w-3" />
+                  Add to Pipeline
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={checkRoundTrip}
+                  disabled={processing || interleaving}
+                  className="flex items-center gap-2"
                 >
-                  {processing ? 'Processing...' : 'Process Image'}
+                  <RotateCcw className="h-3 w-3" />
+                  Check Round Trip
                 </Button>
+                {roundTrip && (
+                  <span className={`text-sm ${isLossless(roundTrip) ? 'text-success' : 'text-destructive'}`}>
+                    {isLossless(roundTrip)
+                      ? `Lossless: all ${roundTrip.comparedPixels.toLocaleString()} pixels restored`
+                      : `${roundTrip.differentPixels.toLocaleString()} of ${roundTrip.comparedPixels.toLocaleString()} pixels differ` +
+                        (roundTrip.sizeMatches ? '' : ', and the size changed')}
+                  </span>
+                )}
               </div>
               
+              {warpSections.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="twill"
+                      checked={twillEnabled}
+                      onCheckedChange={setTwillEnabled}
+                      disabled={processing}
+                    />
+                    <Label htmlFor="twill">Row offset (twill)</Label>
+                  </div>
+                  {twillEnabled && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="twillStep" className="text-xs">Step</Label>
+                        <Input
+                          id="twillStep"
+                          type="number"
+                          value={twill.step}
+                          onChange={(e) => setTwill({ ...twill, step: parseInt(e.target.value) || 0 })}
+                          disabled={processing}
+                          className="w-20"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="twillRepeat" className="text-xs">Rows per step</Label>
+                        <Input
+                          id="twillRepeat"
+                          type="number"
+                          min="1"
+                          value={twill.repeat}
+                          onChange={(e) => setTwill({ ...twill, repeat: Math.max(1, parseInt(e.target.value) || 1) })}
+                          disabled={processing}
+                          className="w-20"
+                        />
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        Row y uses the warp pattern shifted by ⌊y / {twill.repeat}⌋ × {twill.step}, wrapping within each slice
+                      </span>
+                    </>
+                  )}
+                </div>
+              )}
+
+              <ResolutionSettings
+                value={resolution}
+                onChange={setResolution}
+                unit={resolutionUnit}
+                onUnitChange={setResolutionUnit}
+                disabled={processing}
+              />
+
+              {steps.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium flex items-center gap-2">
+                      <Layers className="h-4 w-4" />
+                      Pipeline
+                    </p>
+                    <Button size="sm" variant="ghost" onClick={() => setSteps([])} disabled={processing}>
+                      Clear
+                    </Button>
+                  </div>
+                  <PipelineSteps steps={steps} onChange={setSteps} disabled={processing} />
+                </div>
+              )}
+
+              {(warpRemainder > 0 || weftRemainder > 0) && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription className="space-y-3">
+                    <div>
+                      {warpRemainder > 0 && (
+                        <p>
+                          Width {originalImageData.width} leaves {warpRemainder} column{warpRemainder === 1 ? '' : 's'} outside
+                          complete warp slices; the next slice needs {layoutSlices(originalImageData.width, warpSequence).next.size}.
+                        </p>
+                      )}
+                      {weftRemainder > 0 && (
+                        <p>
+                          Height {originalImageData.height} leaves {weftRemainder} row{weftRemainder === 1 ? '' : 's'} outside
+                          complete weft bands; the next band needs {layoutSlices(originalImageData.height, weftSequence).next.size}.
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <Label htmlFor="remainder" className="text-xs">Leftover handling</Label>
+                      <Select
+                        value={remainder}
+                        onValueChange={(value) => setRemainder(value as RemainderStrategy)}
+                        disabled={processing}
+                      >
+                        <SelectTrigger id="remainder" className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REMAINDER_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs text-muted-foreground">
+                        Output: {outputWidth}×{outputHeight} pixels
+                      </span>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {processing && (
                 <div className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
                     <span>Processing slices...</span>
                     <span>{Math.round(progress)}%</span>
                   </div>
-                  <Progress value={progress} className="w-full" />
+                  <div className="flex items-center gap-2">
+                    <Progress value={progress} className="w-full" />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={cancelWorker}
+                      className="flex items-center gap-1"
+                    >
+                      <X className="h-3 w-3" />
+                      Cancel
+                    </Button>
+                  </div>
                 </div>
               )}
             </div>
@@ -221,7 +650,7 @@ export const ImageProcessor = ({ originalImage, originalImageData, selectedSecti
         </CardContent>
       </Card>
 
-      {processedImageData && previewUrl && (
+      {processedImageData && (
         <Card>
           <CardHeader>
             <CardTitle className="text-primary flex items-center gap-2">
@@ -233,12 +662,46 @@ export const ImageProcessor = ({ originalImage, originalImageData, selectedSecti
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {stepResults.length > 1 && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {stepResults.map((result, index) => (
+                  <div key={index} className="space-y-1 text-center">
+                    <img
+                      src={result.previewUrl}
+                      alt={`Step ${index + 1}`}
+                      className="max-w-full max-h-40 mx-auto rounded border shadow-sm"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Step {index + 1} · {result.imageData.width}×{result.imageData.height}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-center gap-2 text-sm">
+              <Switch id="showBands" checked={showBands} onCheckedChange={setShowBands} />
+              <Label htmlFor="showBands">Show slice bands</Label>
+            </div>
+
             <div className="text-center">
-              <img
-                src={previewUrl}
-                alt="Processed"
-                className="max-w-full max-h-96 mx-auto rounded border shadow-sm"
-              />
+              {showBands ? (
+                <SliceBands
+                  src={stepResults[stepResults.length - 1].previewUrl}
+                  alt="Processed"
+                  width={processedImageData.width}
+                  height={processedImageData.height}
+                  warp={resultSlices.warp}
+                  weft={resultSlices.weft}
+                  className="max-w-full max-h-96 mx-auto rounded border shadow-sm"
+                />
+              ) : (
+                <img
+                  src={stepResults[stepResults.length - 1].previewUrl}
+                  alt="Processed"
+                  className="max-w-full max-h-96 mx-auto rounded border shadow-sm"
+                />
+              )}
             </div>
             
             <div className="flex flex-wrap gap-2 justify-center">
@@ -258,18 +721,98 @@ export const ImageProcessor = ({ originalImage, originalImageData, selectedSecti
                 <Download className="h-4 w-4" />
                 Download JPG
               </Button>
-              <Button
-                variant="outline"
-                onClick={() => downloadImage('bmp')}
-                className="flex items-center gap-2"
-              >
-                <Download className="h-4 w-4" />
-                Download BMP
-              </Button>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  onClick={downloadBmp}
+                  className="flex items-center gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Download BMP
+                </Button>
+                <Select value={String(bmpBitDepth)} onValueChange={(value) => setBmpBitDepth(Number(value) as BmpBitDepth)}>
+                  <SelectTrigger className="w-28" aria-label="BMP bit depth">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="24">24-bit</SelectItem>
+                    <SelectItem value="32">32-bit</SelectItem>
+                    <SelectItem value="8">8-bit indexed</SelectItem>
+                    <SelectItem value="4">4-bit indexed</SelectItem>
+                    <SelectItem value="1">1-bit</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={bmpTopDown ? "top-down" : "bottom-up"} onValueChange={(value) => setBmpTopDown(value === "top-down")}>
+                  <SelectTrigger className="w-32" aria-label="BMP row order">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bottom-up">Bottom-up</SelectItem>
+                    <SelectItem value="top-down">Top-down</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  onClick={downloadTiff}
+                  className="flex items-center gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Download TIFF
+                </Button>
+                <Select value={tiffColorMode} onValueChange={(value) => setTiffColorMode(value as TiffColorMode)}>
+                  <SelectTrigger className="w-28" aria-label="TIFF color mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rgb">RGB</SelectItem>
+                    <SelectItem value="rgba">RGBA</SelectItem>
+                    <SelectItem value="gray">Grayscale</SelectItem>
+                    <SelectItem value="palette">Palette</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={tiffCompression} onValueChange={(value) => setTiffCompression(value as TiffCompression)}>
+                  <SelectTrigger className="w-32" aria-label="TIFF compression">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Uncompressed</SelectItem>
+                    <SelectItem value="lzw">LZW</SelectItem>
+                    <SelectItem value="packbits">PackBits</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
+
+            {processedIndexed && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">Palette ({getPaletteSize(processedIndexed)} colors)</p>
+                  <div className="flex items-center gap-2 text-sm">
+                    <Switch id="keepPalette" checked={keepPalette} onCheckedChange={setKeepPalette} />
+                    <Label htmlFor="keepPalette">Write the original palette to PNG, indexed BMP and palette TIFF</Label>
+                  </div>
+                </div>
+                <PaletteSwatches palette={processedIndexed.palette} counts={countPaletteUsage(processedIndexed)} />
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
+
+      {processedImageData && originalImage && (
+        <DraftExport
+          image={processedImageData}
+          indexed={processedIndexed}
+          name={originalImage.name.replace(/\.[^/.]+$/, "")}
+          onDownload={saveDownload}
+        />
+      )}
+
+      {processedIndexed && (
+        <ColorwayGenerator design={processedIndexed} resolution={resolution} onDownload={saveDownload} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,81 +1,228 @@
 import { useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Upload, Image as ImageIcon, X } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Upload, Image as ImageIcon, X, Plus, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
+import { decodeBmp } from "@/lib/formats/bmp";
+import { decodeTiff } from "@/lib/formats/tiff";
+import { readPngResolution } from "@/lib/formats/png";
+import { readJpegResolution } from "@/lib/formats/jpeg";
+import { fromPixelsPerMeter, type Resolution } from "@/lib/formats/resolution";
+import { getPaletteSize, indexPixels, isOpaque, type IndexedImage, type PixelBuffer } from "@/lib/engine";
+
+export interface UploadedImage {
+  file: File;
+  imageData: ImageData;
+  previewUrl: string;
+  // Bits per pixel as stored in an uploaded BMP or palette TIFF
+  bitDepth?: number;
+  // Palette indices: the file's own color table for indexed BMPs and TIFFs, otherwise the image's
+  // colors when there are at most 256 of them and none is transparent
+  indexed?: IndexedImage;
+  // Pixels per meter stored in the file, if any
+  resolution?: Resolution;
+}
 
 interface ImageUploadProps {
-  onImageUpload: (file: File, imageData: ImageData) => void;
-  uploadedImage: File | null;
+  // The first image is the primary one; any others are interleaved with it
+  onImagesChange: (images: UploadedImage[]) => void;
+  uploadedImages: UploadedImage[];
 }
 
-export const ImageUpload = ({ onImageUpload, uploadedImage }: ImageUploadProps) => {
+const isBmpFile = (file: File) =>
+  file.type === 'image/bmp' || file.type === 'image/x-ms-bmp' || file.name.toLowerCase().endsWith('.bmp');
+
+const isTiffFile = (file: File) => file.type === 'image/tiff' || /\.tiff?$/i.test(file.name);
+
+interface DecodedFile {
+  image: PixelBuffer;
+  bitDepth?: number;
+  resolution?: Resolution;
+  palette?: Uint8Array;
+  indices?: Uint8Array;
+}
+
+// Palettes hold no alpha, so images with any transparency stay RGBA rather than coming back opaque
+const indexOpaquePixels = (image: PixelBuffer): IndexedImage | undefined =>
+  isOpaque(image) ? indexPixels(image) ?? undefined : undefined;
+
+// BMPs and TIFFs are parsed directly: browsers flatten indexed BMPs, can't open some RLE or 1-bit
+// ones, and mostly can't show TIFF at all
+const loadDecodedFile = (file: File, { image, bitDepth, palette, indices, resolution }: DecodedFile): UploadedImage => {
+  const imageData = new ImageData(image.data, image.width, image.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+
+  const indexed = palette && indices && isOpaque(image)
+    ? { width: image.width, height: image.height, indices, palette }
+    : indexOpaquePixels(image);
+
+  return { file, imageData, previewUrl: canvas.toDataURL('image/png'), bitDepth, indexed, resolution };
+};
+
+const loadBmpFile = async (file: File): Promise<UploadedImage> =>
+  loadDecodedFile(file, decodeBmp(await file.arrayBuffer()));
+
+const loadTiffFile = async (file: File): Promise<UploadedImage> => {
+  const decoded = decodeTiff(await file.arrayBuffer());
+  // Only the palette's bit depth is worth showing; grayscale and RGB files are shown by their colors
+  return loadDecodedFile(file, { ...decoded, bitDepth: decoded.palette ? decoded.bitDepth : undefined });
+};
+
+const readFileResolution = async (file: File): Promise<Resolution | undefined> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return readPngResolution(bytes) ?? readJpegResolution(bytes);
+};
+
+const loadImageFile = (file: File): Promise<UploadedImage> =>
+  new Promise((resolve, reject) => {
+    const previewUrl = URL.createObjectURL(file);
+
+    // Create image element to load the file
+    const img = new Image();
+    img.onload = () => {
+      // Create canvas to extract image data
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        URL.revokeObjectURL(previewUrl);
+        reject(new Error("Failed to process image"));
+        return;
+      }
+
+      canvas.width = img.width;
+      canvas.height = img.height;
+      ctx.drawImage(img, 0, 0);
+
+      const imageData = ctx.getImageData(0, 0, img.width, img.height);
+      resolve({ file, imageData, previewUrl, indexed: indexOpaquePixels(imageData) });
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(previewUrl);
+      reject(new Error("Failed to load image file"));
+    };
+
+    img.src = previewUrl;
+  });
+
+// Scales an image to the given size so it can be interleaved with images of that size
+const resizeImage = (image: UploadedImage, width: number, height: number): UploadedImage => {
+  const sourceCanvas = document.createElement('canvas');
+  sourceCanvas.width = image.imageData.width;
+  sourceCanvas.height = image.imageData.height;
+  sourceCanvas.getContext('2d')?.putImageData(image.imageData, 0, 0);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  canvas.width = width;
+  canvas.height = height;
+  if (!ctx) {
+    throw new Error("Failed to resize image");
+  }
+  ctx.drawImage(sourceCanvas, 0, 0, width, height);
+
+  // Scaling blends colors, so the palette usually doesn't survive
+  const imageData = ctx.getImageData(0, 0, width, height);
+  return { ...image, imageData, indexed: indexOpaquePixels(imageData) };
+};
+
+const sameSize = (a: ImageData, b: ImageData) => a.width === b.width && a.height === b.height;
+
+export const ImageUpload = ({ onImagesChange, uploadedImages }: ImageUploadProps) => {
   const [dragActive, setDragActive] = useState(false);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  // Images whose size differs from the first one, waiting to be resized or skipped
+  const [mismatched, setMismatched] = useState<UploadedImage[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const addInputRef = useRef<HTMLInputElement>(null);
 
   const validateFile = (file: File): boolean => {
-    const validTypes = ['image/bmp', 'image/x-ms-bmp', 'image/jpeg', 'image/jpg', 'image/png'];
-    
-    if (!validTypes.includes(file.type) && !file.name.toLowerCase().endsWith('.bmp')) {
-      toast.error("Please upload a BMP, JPEG, or PNG image file");
+    const validTypes = ['image/bmp', 'image/x-ms-bmp', 'image/jpeg', 'image/jpg', 'image/png', 'image/tiff'];
+
+    if (!validTypes.includes(file.type) && !/\.(bmp|tiff?)$/i.test(file.name)) {
+      toast.error(`${file.name}: please upload a BMP, JPEG, PNG, or TIFF image file`);
       return false;
     }
 
     const maxSize = 50 * 1024 * 1024; // 50MB
     if (file.size > maxSize) {
-      toast.error("File size must be less than 50MB");
+      toast.error(`${file.name}: file size must be less than 50MB`);
       return false;
     }
 
     return true;
   };
 
-  const processImageFile = async (file: File) => {
-    if (!validateFile(file)) return;
+  // Loads the files and either replaces the current images or adds them for interleaving
+  const processImageFiles = async (files: File[], append: boolean) => {
+    const loaded: UploadedImage[] = [];
+
+    for (const file of files.filter(validateFile)) {
+      try {
+        loaded.push(
+          isBmpFile(file)
+            ? await loadBmpFile(file)
+            : isTiffFile(file)
+              ? await loadTiffFile(file)
+              : { ...(await loadImageFile(file)), resolution: await readFileResolution(file) }
+        );
+      } catch (error) {
+        console.error("Error processing image:", error);
+        toast.error(`${file.name}: ${error instanceof Error ? error.message : "failed to process image file"}`);
+      }
+    }
+
+    if (loaded.length === 0) return;
+
+    const base = append ? uploadedImages : [];
+    if (!append) {
+      uploadedImages.forEach((image) => URL.revokeObjectURL(image.previewUrl));
+      setMismatched([]);
+    }
+
+    const reference = (base[0] ?? loaded[0]).imageData;
+    const matching = loaded.filter((image) => sameSize(image.imageData, reference));
+    const different = loaded.filter((image) => !sameSize(image.imageData, reference));
+
+    if (matching.length > 0) {
+      const images = [...base, ...matching];
+      onImagesChange(images);
+      toast.success(
+        images.length > 1
+          ? `${images.length} images ready to interleave (${reference.width}×${reference.height} pixels)`
+          : `Image uploaded: ${reference.width}×${reference.height} pixels`
+      );
+    }
+
+    if (different.length > 0) {
+      setMismatched([...(append ? mismatched : []), ...different]);
+    }
+  };
+
+  const handleResizeMismatched = () => {
+    const reference = uploadedImages[0]?.imageData;
+    if (!reference) return;
 
     try {
-      const imageUrl = URL.createObjectURL(file);
-      setPreviewUrl(imageUrl);
-
-      // Create image element to load the file
-      const img = new Image();
-      img.onload = () => {
-        // Create canvas to extract image data
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        
-        if (!ctx) {
-          toast.error("Failed to process image");
-          return;
-        }
-
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-
-        // Get image data
-        const imageData = ctx.getImageData(0, 0, img.width, img.height);
-        
-        onImageUpload(file, imageData);
-        toast.success(`Image uploaded: ${img.width}×${img.height} pixels`);
-        
-        // Clean up
-        URL.revokeObjectURL(imageUrl);
-      };
-
-      img.onerror = () => {
-        toast.error("Failed to load image file");
-        URL.revokeObjectURL(imageUrl);
-      };
-
-      img.src = imageUrl;
+      onImagesChange([...uploadedImages, ...mismatched.map((image) => resizeImage(image, reference.width, reference.height))]);
+      setMismatched([]);
+      toast.success(`Resized ${mismatched.length} image(s) to ${reference.width}×${reference.height}`);
     } catch (error) {
-      console.error("Error processing image:", error);
-      toast.error("Failed to process image file");
+      console.error("Error resizing image:", error);
+      toast.error("Failed to resize image");
     }
   };
 
+  const handleSkipMismatched = () => {
+    mismatched.forEach((image) => URL.revokeObjectURL(image.previewUrl));
+    setMismatched([]);
+  };
+
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -91,21 +238,26 @@ export const ImageUpload = ({ onImageUpload, uploadedImage }: ImageUploadProps)
     e.stopPropagation();
     setDragActive(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      processImageFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      processImageFiles(Array.from(e.dataTransfer.files), false);
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      processImageFile(e.target.files[0]);
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, append: boolean) => {
+    if (e.target.files && e.target.files.length > 0) {
+      processImageFiles(Array.from(e.target.files), append);
     }
+    e.target.value = '';
   };
 
-  const clearImage = () => {
-    setPreviewUrl(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  const removeImage = (index: number) => {
+    const removed = uploadedImages[index];
+    URL.revokeObjectURL(removed.previewUrl);
+    onImagesChange(uploadedImages.filter((_, i) => i !== index));
+
+    // With no images left there's nothing to resize to
+    if (uploadedImages.length === 1) {
+      handleSkipMismatched();
     }
   };
 
@@ -118,10 +270,11 @@ export const ImageUpload = ({ onImageUpload, uploadedImage }: ImageUploadProps)
             Upload Image
           </CardTitle>
           <CardDescription>
-            Upload a BMP, JPEG, or PNG image to apply pixel reordering patterns
+            Upload a BMP, JPEG, PNG, or TIFF image to apply pixel reordering patterns, or several images of
+            the same size to interleave them column by column
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div
             className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
               dragActive
@@ -133,47 +286,90 @@ export const ImageUpload = ({ onImageUpload, uploadedImage }: ImageUploadProps)
             onDragOver={handleDrag}
             onDrop={handleDrop}
           >
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".bmp,.jpg,.jpeg,.png,image/bmp,image/jpeg,image/png"
-              onChange={handleFileChange}
-              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-            />
-            
-            {previewUrl ? (
+            {uploadedImages.length === 0 && (
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept=".bmp,.jpg,.jpeg,.png,.tif,.tiff,image/bmp,image/jpeg,image/png,image/tiff"
+                onChange={(e) => handleFileChange(e, false)}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+              />
+            )}
+
+            {uploadedImages.length > 0 ? (
               <div className="space-y-4">
-                <div className="relative inline-block">
-                  <img
-                    src={previewUrl}
-                    alt="Preview"
-                    className="max-w-full max-h-64 rounded border shadow-sm"
-                  />
-                  <Button
-                    size="sm"
-                    variant="destructive"
-                    className="absolute -top-2 -right-2 h-6 w-6 rounded-full p-0"
-                    onClick={clearImage}
-                  >
-                    <X className="h-3 w-3" />
-                  </Button>
+                <div className="flex flex-wrap justify-center gap-4">
+                  {uploadedImages.map((image, index) => (
+                    <div key={image.previewUrl} className="space-y-1">
+                      <div className="relative inline-block">
+                        <img
+                          src={image.previewUrl}
+                          alt={`Image ${index + 1}`}
+                          className={`max-w-full rounded border shadow-sm ${uploadedImages.length > 1 ? 'max-h-40' : 'max-h-64'}`}
+                        />
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          className="absolute -top-2 -right-2 h-6 w-6 rounded-full p-0"
+                          onClick={() => removeImage(index)}
+                          aria-label={`Remove ${image.file.name}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        <p className="font-medium">
+                          {uploadedImages.length > 1 && `${index + 1}. `}{image.file.name}
+                        </p>
+                        <p>
+                          {image.imageData.width}×{image.imageData.height} · {(image.file.size / 1024 / 1024).toFixed(2)} MB
+                        </p>
+                        {image.resolution && (
+                          <p>
+                            {Math.round(fromPixelsPerMeter(image.resolution.x, "dpi"))}×
+                            {Math.round(fromPixelsPerMeter(image.resolution.y, "dpi"))} DPI
+                          </p>
+                        )}
+                        {image.indexed && (
+                          <p>
+                            {image.bitDepth && image.bitDepth <= 8 && `${image.bitDepth}-bit indexed · `}
+                            {getPaletteSize(image.indexed)} color palette
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
                 </div>
-                {uploadedImage && (
-                  <div className="text-sm text-muted-foreground">
-                    <p className="font-medium">{uploadedImage.name}</p>
-                    <p>{(uploadedImage.size / 1024 / 1024).toFixed(2)} MB</p>
-                  </div>
+                {uploadedImages.length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    Column i of every slice comes from image (i mod {uploadedImages.length}) + 1
+                  </p>
                 )}
+                <input
+                  ref={addInputRef}
+                  type="file"
+                  multiple
+                  accept=".bmp,.jpg,.jpeg,.png,.tif,.tiff,image/bmp,image/jpeg,image/png,image/tiff"
+                  onChange={(e) => handleFileChange(e, true)}
+                  className="hidden"
+                />
+                <div className="flex justify-center gap-2">
+                  <Button variant="outline" onClick={() => addInputRef.current?.click()} className="flex items-center gap-1">
+                    <Plus className="h-4 w-4" />
+                    Add Images to Interleave
+                  </Button>
+                </div>
               </div>
             ) : (
               <div className="space-y-4">
                 <Upload className="mx-auto h-12 w-12 text-muted-foreground" />
                 <div>
                   <p className="text-lg font-medium text-foreground">
-                    Drop your image here, or click to browse
+                    Drop your images here, or click to browse
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Supports BMP, JPEG, and PNG files up to 50MB
+                    Supports BMP, JPEG, PNG, and TIFF files up to 50MB
                   </p>
                 </div>
                 <Button variant="outline">
@@ -182,6 +378,33 @@ export const ImageUpload = ({ onImageUpload, uploadedImage }: ImageUploadProps)
               </div>
             )}
           </div>
+
+          {mismatched.length > 0 && uploadedImages.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="space-y-2">
+                <p>
+                  Interleaved images must match the first image ({uploadedImages[0].imageData.width}×
+                  {uploadedImages[0].imageData.height}):
+                </p>
+                <ul className="list-disc pl-5 text-sm">
+                  {mismatched.map((image) => (
+                    <li key={image.previewUrl}>
+                      {image.file.name} is {image.imageData.width}×{image.imageData.height}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleResizeMismatched}>
+                    Resize to Match
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={handleSkipMismatched}>
+                    Skip
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
         </CardContent>
       </Card>
     </div>
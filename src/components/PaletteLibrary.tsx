@@ -0,0 +1,199 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Palette, Trash2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { yarnPaletteService, type YarnColor, type YarnPalette } from "@/lib/supabase";
+import { readPaletteFile } from "@/lib/formats/palette-files";
+
+interface DraftPalette {
+  name: string;
+  colors: YarnColor[];
+}
+
+// Strip of swatches; hovering shows each yarn's name and code
+const YarnSwatches = ({ colors }: { colors: YarnColor[] }) => (
+  <div className="flex flex-wrap gap-1">
+    {colors.map((color, index) => (
+      <div
+        key={index}
+        className="h-5 w-5 rounded border"
+        style={{ backgroundColor: color.hex }}
+        title={`${color.name}${color.code ? ` (${color.code})` : ""} ${color.hex}`}
+      />
+    ))}
+  </div>
+);
+
+export const PaletteLibrary = () => {
+  const [palettes, setPalettes] = useState<YarnPalette[]>([]);
+  const [draft, setDraft] = useState<DraftPalette | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load palettes from database on mount
+  useEffect(() => {
+    loadPalettes();
+
+    // Subscribe to real-time changes
+    const subscription = yarnPaletteService.subscribeToPalettes(setPalettes);
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const loadPalettes = async () => {
+    const allPalettes = await yarnPaletteService.getAllPalettes();
+    setPalettes(allPalettes);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = await readPaletteFile(file);
+      if (imported.colors.length === 0) {
+        toast.error(`${file.name} has no colors`);
+        return;
+      }
+      setDraft(imported);
+      toast.success(`Read ${imported.colors.length} colors from ${file.name}`);
+    } catch (error) {
+      console.error("Error reading palette:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to read palette file");
+    }
+  };
+
+  const updateDraftColor = (index: number, updates: Partial<YarnColor>) => {
+    if (!draft) return;
+    setDraft({ ...draft, colors: draft.colors.map((color, i) => (i === index ? { ...color, ...updates } : color)) });
+  };
+
+  const handleSavePalette = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      toast.error("Please enter a palette name");
+      return;
+    }
+
+    const newPalette = await yarnPaletteService.createPalette({ name: draft.name.trim(), colors: draft.colors });
+
+    if (newPalette) {
+      setDraft(null);
+      toast.success("Palette saved!");
+      loadPalettes(); // Refresh the list
+    } else {
+      toast.error("Failed to save palette");
+    }
+  };
+
+  const handleDeletePalette = async (id: string) => {
+    const success = await yarnPaletteService.deletePalette(id);
+
+    if (success) {
+      toast.success("Palette deleted");
+      loadPalettes(); // Refresh the list
+    } else {
+      toast.error("Failed to delete palette");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          <Palette className="h-5 w-5" />
+          Yarn Palettes
+        </CardTitle>
+        <CardDescription>
+          Import yarn cards from GIMP (.gpl), Adobe Swatch Exchange (.ase) or CSV files to map images onto real yarns
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gpl,.ase,.csv,.tsv,.txt"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            Import Palette File
+          </Button>
+
+          {draft && (
+            <div className="rounded border p-3 space-y-3">
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label htmlFor="paletteName">Palette Name</Label>
+                  <Input
+                    id="paletteName"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setDraft(null)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+
+              <div className="max-h-72 overflow-y-auto space-y-1">
+                {draft.colors.map((color, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <div className="h-6 w-6 shrink-0 rounded border" style={{ backgroundColor: color.hex }} title={color.hex} />
+                    <Input
+                      value={color.name}
+                      onChange={(e) => updateDraftColor(index, { name: e.target.value })}
+                      className="h-8 flex-1"
+                      aria-label={`Color ${index + 1} name`}
+                    />
+                    <Input
+                      value={color.code}
+                      onChange={(e) => updateDraftColor(index, { code: e.target.value })}
+                      placeholder="Yarn code"
+                      className="h-8 w-32"
+                      aria-label={`Color ${index + 1} yarn code`}
+                    />
+                    <span className="w-16 font-mono text-xs text-muted-foreground">{color.hex}</span>
+                  </div>
+                ))}
+              </div>
+
+              <Button onClick={handleSavePalette} className="w-full bg-gradient-primary">
+                Save Palette
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {palettes.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground">No yarn palettes yet.</p>
+          ) : (
+            palettes.map((palette) => (
+              <div key={palette.id} className="rounded border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <h4 className="font-medium text-foreground">{palette.name}</h4>
+                    <p className="text-xs text-muted-foreground">{palette.colors.length} yarns</p>
+                  </div>
+                  <Button size="sm" variant="destructive" onClick={() => handleDeletePalette(palette.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+                <YarnSwatches colors={palette.colors} />
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
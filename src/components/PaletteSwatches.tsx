@@ -0,0 +1,37 @@
+import { formatHexColor, getPaletteSize } from "@/lib/engine";
+
+interface PaletteSwatchesProps {
+  // RGB triplets
+  palette: Uint8Array;
+  // Pixels per palette entry
+  counts?: number[];
+}
+
+export const PaletteSwatches = ({ palette, counts }: PaletteSwatchesProps) => {
+  const total = counts?.reduce((sum, count) => sum + count, 0) ?? 0;
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 gap-2">
+      {Array.from({ length: getPaletteSize({ palette }) }, (_, index) => {
+        const hex = formatHexColor(palette, index);
+        const count = counts?.[index] ?? 0;
+
+        return (
+          <div key={index} className={`flex items-center gap-2 rounded border p-1 text-xs ${counts && count === 0 ? "opacity-50" : ""}`}>
+            <div className="h-6 w-6 shrink-0 rounded border" style={{ backgroundColor: hex }} title={hex} />
+            <div className="min-w-0">
+              <p className="font-mono">
+                {index}: {hex}
+              </p>
+              {counts && (
+                <p className="text-muted-foreground">
+                  {count.toLocaleString()} px{total > 0 && ` · ${((count / total) * 100).toFixed(1)}%`}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import type { PixelSection, SliceOrientation } from "@/lib/supabase";
+import type { ProcessingDirection, RemainderStrategy, RowOffset } from "@/lib/engine";
+import { formatSequence, REMAINDER_OPTIONS } from "@/lib/processing-options";
+
+export interface ProcessingStep {
+  id: string;
+  // Sections laid out across consecutive slices; empty leaves that axis alone
+  warp: PixelSection[];
+  weft: PixelSection[];
+  // 2-D block section applied before the warp and weft
+  block: PixelSection | null;
+  remainder: RemainderStrategy;
+  direction: ProcessingDirection;
+  // Twill offset for the warp section
+  rowOffset: RowOffset | null;
+}
+
+interface PipelineStepsProps {
+  steps: ProcessingStep[];
+  onChange: (steps: ProcessingStep[]) => void;
+  disabled?: boolean;
+}
+
+export const PipelineSteps = ({ steps, onChange, disabled }: PipelineStepsProps) => {
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+
+    const newSteps = [...steps];
+    [newSteps[index], newSteps[target]] = [newSteps[target], newSteps[index]];
+    onChange(newSteps);
+  };
+
+  const removeStep = (id: string) => {
+    onChange(steps.filter((step) => step.id !== id));
+  };
+
+  // A single-axis step can move between columns and rows
+  const setOrientation = (step: ProcessingStep, orientation: SliceOrientation) => {
+    const sections = step.warp.length > 0 ? step.warp : step.weft;
+    const updated = orientation === "vertical"
+      ? { ...step, warp: sections, weft: [] }
+      : { ...step, warp: [], weft: sections, rowOffset: null };
+
+    onChange(steps.map((s) => (s.id === step.id ? updated : s)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {steps.map((step, index) => {
+        const singleAxis = (step.warp.length === 0) !== (step.weft.length === 0);
+        const remainderLabel = REMAINDER_OPTIONS.find((option) => option.value === step.remainder)?.label;
+
+        return (
+          <div key={step.id} className="flex flex-wrap items-center gap-3 rounded border p-3 text-sm">
+            <span className="font-medium text-primary">Step {index + 1}</span>
+            <div className="flex-1 min-w-48">
+              {step.warp.length > 0 && <p>Warp: {formatSequence(step.warp)}</p>}
+              {step.weft.length > 0 && <p>Weft: {formatSequence(step.weft)}</p>}
+              {step.block && <p>Block: {step.block.name}</p>}
+              <p className="text-xs text-muted-foreground">
+                {step.direction === "inverse" ? "Un-weave" : "Weave"} · Leftover: {remainderLabel}
+                {step.rowOffset && ` · Twill step ${step.rowOffset.step} every ${step.rowOffset.repeat} row(s)`}
+              </p>
+            </div>
+            {singleAxis && (
+              <Select
+                value={step.warp.length > 0 ? "vertical" : "horizontal"}
+                onValueChange={(value) => setOrientation(step, value as SliceOrientation)}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-36" aria-label={`Step ${index + 1} orientation`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="vertical">Vertical</SelectItem>
+                  <SelectItem value="horizontal">Horizontal</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <div className="flex gap-1">
+              <Button size="sm" variant="outline" onClick={() => moveStep(index, -1)} disabled={disabled || index === 0}>
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => moveStep(index, 1)}
+                disabled={disabled || index === steps.length - 1}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button size="sm" variant="destructive" onClick={() => removeStep(step.id)} disabled={disabled}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  fromPixelsPerMeter,
+  toPixelsPerMeter,
+  type Resolution,
+  type ResolutionUnit,
+} from "@/lib/formats/resolution";
+
+interface ResolutionSettingsProps {
+  value: Resolution;
+  onChange: (resolution: Resolution) => void;
+  // Unit the values are typed in; files that can store it record it as well
+  unit: ResolutionUnit;
+  onUnitChange: (unit: ResolutionUnit) => void;
+  disabled?: boolean;
+}
+
+const formatValue = (pixelsPerMeter: number, unit: ResolutionUnit) =>
+  String(Number(fromPixelsPerMeter(pixelsPerMeter, unit).toFixed(2)));
+
+// Ends (x) and picks (y) per inch or per centimeter, stored as pixels per meter
+export const ResolutionSettings = ({ value, onChange, unit, onUnitChange, disabled }: ResolutionSettingsProps) => {
+  const [text, setText] = useState({ x: formatValue(value.x, unit), y: formatValue(value.y, unit) });
+
+  // Follow outside changes, such as a new upload, without reformatting what is being typed
+  useEffect(() => {
+    setText((current) => ({
+      x: Math.abs(toPixelsPerMeter(parseFloat(current.x), unit) - value.x) < 0.5 ? current.x : formatValue(value.x, unit),
+      y: Math.abs(toPixelsPerMeter(parseFloat(current.y), unit) - value.y) < 0.5 ? current.y : formatValue(value.y, unit),
+    }));
+  }, [value, unit]);
+
+  const handleChange = (axis: keyof Resolution, input: string) => {
+    setText({ ...text, [axis]: input });
+
+    const parsed = parseFloat(input);
+    if (parsed > 0) {
+      onChange({ ...value, [axis]: toPixelsPerMeter(parsed, unit) });
+    }
+  };
+
+  const handleUnitChange = (newUnit: ResolutionUnit) => {
+    onUnitChange(newUnit);
+    setText({ x: formatValue(value.x, newUnit), y: formatValue(value.y, newUnit) });
+  };
+
+  const unitLabel = unit === "dpi" ? "per inch" : "per cm";
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <span className="font-medium">Resolution</span>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="resolutionX" className="text-xs">Ends {unitLabel} (X)</Label>
+        <Input
+          id="resolutionX"
+          type="number"
+          min="0"
+          step="any"
+          value={text.x}
+          onChange={(e) => handleChange("x", e.target.value)}
+          disabled={disabled}
+          className="w-24"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="resolutionY" className="text-xs">Picks {unitLabel} (Y)</Label>
+        <Input
+          id="resolutionY"
+          type="number"
+          min="0"
+          step="any"
+          value={text.y}
+          onChange={(e) => handleChange("y", e.target.value)}
+          disabled={disabled}
+          className="w-24"
+        />
+      </div>
+      <Select value={unit} onValueChange={(newUnit) => handleUnitChange(newUnit as ResolutionUnit)} disabled={disabled}>
+        <SelectTrigger className="w-40" aria-label="Resolution unit">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="dpi">DPI</SelectItem>
+          <SelectItem value="per-cm">Threads per cm</SelectItem>
+        </SelectContent>
+      </Select>
+      <span className="text-xs text-muted-foreground">Written to PNG, JPG, BMP and TIFF downloads</span>
+    </div>
+  );
+};
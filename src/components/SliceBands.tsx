@@ -0,0 +1,47 @@
+import { layoutSlices, type SectionSequence } from "@/lib/engine";
+import { sliceBandColor } from "@/lib/slice-layouts";
+
+interface SliceBandsProps {
+  src: string;
+  alt: string;
+  width: number;
+  height: number;
+  // Vertical bands for the warp slices, horizontal bands for the weft
+  warp?: SectionSequence;
+  weft?: SectionSequence;
+  className?: string;
+}
+
+// An image with its slices drawn over it as coloured bands, one colour per position in the sequence
+export const SliceBands = ({ src, alt, width, height, warp, weft, className }: SliceBandsProps) => {
+  const bands = (sequence: SectionSequence | undefined, length: number) =>
+    sequence && sequence.length > 0
+      ? layoutSlices(length, sequence).slices.map((slice, index) => ({
+          start: (slice.start / length) * 100,
+          size: (slice.section.size / length) * 100,
+          color: sliceBandColor(index % sequence.length, sequence.length),
+        }))
+      : [];
+
+  return (
+    <div className="relative inline-block">
+      <img src={src} alt={alt} className={className} />
+      <div className="absolute inset-0 pointer-events-none overflow-hidden rounded">
+        {bands(warp, width).map((band, index) => (
+          <div
+            key={`warp-${index}`}
+            className="absolute inset-y-0 border-l border-white/40"
+            style={{ left: `${band.start}%`, width: `${band.size}%`, backgroundColor: band.color }}
+          />
+        ))}
+        {bands(weft, height).map((band, index) => (
+          <div
+            key={`weft-${index}`}
+            className="absolute inset-x-0 border-t border-white/40"
+            style={{ top: `${band.start}%`, height: `${band.size}%`, backgroundColor: band.color }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
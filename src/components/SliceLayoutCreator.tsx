@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Columns3, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  pixelSectionService,
+  sliceLayoutService,
+  type PixelSection,
+  type SliceLayout,
+  type SliceLayoutEntry,
+} from "@/lib/supabase";
+import type { WeaveAxis } from "@/lib/engine";
+import { resolveSliceLayout, sliceBandColor } from "@/lib/slice-layouts";
+
+interface SliceLayoutCreatorProps {
+  onSequenceChange: (axis: WeaveAxis, sections: PixelSection[]) => void;
+}
+
+interface DraftSlice {
+  width: string;
+  sectionId: string;
+}
+
+export const SliceLayoutCreator = ({ onSequenceChange }: SliceLayoutCreatorProps) => {
+  const [layouts, setLayouts] = useState<SliceLayout[]>([]);
+  const [sections, setSections] = useState<PixelSection[]>([]);
+  const [newLayoutName, setNewLayoutName] = useState<string>("");
+  const [draftSlices, setDraftSlices] = useState<DraftSlice[]>([{ width: "6", sectionId: "" }]);
+
+  // Load layouts and the sections they refer to on mount
+  useEffect(() => {
+    loadLayouts();
+    pixelSectionService.getAllSections().then(setSections);
+
+    // Subscribe to real-time changes
+    const layoutSubscription = sliceLayoutService.subscribeToLayouts(setLayouts);
+    const sectionSubscription = pixelSectionService.subscribeToSections(setSections);
+
+    return () => {
+      layoutSubscription.unsubscribe();
+      sectionSubscription.unsubscribe();
+    };
+  }, []);
+
+  const loadLayouts = async () => {
+    const allLayouts = await sliceLayoutService.getAllLayouts();
+    setLayouts(allLayouts);
+  };
+
+  const updateDraftSlice = (index: number, updates: Partial<DraftSlice>) => {
+    setDraftSlices(draftSlices.map((slice, i) => (i === index ? { ...slice, ...updates } : slice)));
+  };
+
+  const handleCreateLayout = async () => {
+    if (!newLayoutName.trim()) {
+      toast.error("Please enter a layout name");
+      return;
+    }
+
+    const slices: SliceLayoutEntry[] = draftSlices.map((slice) => ({
+      width: parseInt(slice.width),
+      section_id: slice.sectionId,
+    }));
+
+    if (slices.some((slice) => isNaN(slice.width) || slice.width < 1)) {
+      toast.error("Every slice needs a width of at least 1");
+      return;
+    }
+
+    if (slices.some((slice) => !slice.section_id)) {
+      toast.error("Pick a section for every slice");
+      return;
+    }
+
+    const newLayout = await sliceLayoutService.createLayout({ name: newLayoutName, slices });
+
+    if (newLayout) {
+      setNewLayoutName("");
+      setDraftSlices([{ width: "6", sectionId: "" }]);
+      toast.success("Slice layout saved!");
+      loadLayouts(); // Refresh the list
+    } else {
+      toast.error("Failed to save layout");
+    }
+  };
+
+  const handleDeleteLayout = async (id: string) => {
+    const success = await sliceLayoutService.deleteLayout(id);
+
+    if (success) {
+      toast.success("Layout deleted");
+      loadLayouts(); // Refresh the list
+    } else {
+      toast.error("Failed to delete layout");
+    }
+  };
+
+  const handleUseLayout = (axis: WeaveAxis, layout: SliceLayout) => {
+    const resolved = resolveSliceLayout(layout, sections);
+
+    if ("error" in resolved) {
+      toast.error(resolved.error);
+      return;
+    }
+
+    onSequenceChange(axis, resolved.sequence);
+    toast.success(`Using "${layout.name}" for the ${axis}`);
+  };
+
+  const totalWidth = (layout: SliceLayout) => layout.slices.reduce((sum, slice) => sum + slice.width, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          <Columns3 className="h-5 w-5" />
+          Slice Layouts
+        </CardTitle>
+        <CardDescription>
+          Combine slices of different widths, each bound to a section of the same size, repeated across the image
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="layoutName">Layout Name</Label>
+            <Input
+              id="layoutName"
+              value={newLayoutName}
+              onChange={(e) => setNewLayoutName(e.target.value)}
+              placeholder="e.g., Border 6-8-6-12"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Slices</Label>
+            {draftSlices.map((slice, index) => {
+              const width = parseInt(slice.width);
+              const compatible = sections.filter((section) => section.kind !== "block" && section.size === width);
+
+              return (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-12">#{index + 1}</span>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={slice.width}
+                    onChange={(e) => updateDraftSlice(index, { width: e.target.value, sectionId: "" })}
+                    className="w-20 text-center"
+                    aria-label={`Slice ${index + 1} width`}
+                  />
+                  <Select
+                    value={slice.sectionId}
+                    onValueChange={(value) => updateDraftSlice(index, { sectionId: value })}
+                    disabled={compatible.length === 0}
+                  >
+                    <SelectTrigger className="flex-1" aria-label={`Slice ${index + 1} section`}>
+                      <SelectValue placeholder={compatible.length === 0 ? `No sections of size ${slice.width}` : "Choose a section"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {compatible.map((section) => (
+                        <SelectItem key={section.id} value={section.id}>
+                          {section.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setDraftSlices(draftSlices.filter((_, i) => i !== index))}
+                    disabled={draftSlices.length === 1}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setDraftSlices([...draftSlices, { width: "6", sectionId: "" }])}
+              className="flex items-center gap-1"
+            >
+              <Plus className="h-3 w-3" />
+              Add Slice
+            </Button>
+          </div>
+
+          <Button onClick={handleCreateLayout} className="w-full bg-gradient-primary">
+            Save Layout
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {layouts.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground">No slice layouts yet.</p>
+          ) : (
+            layouts.map((layout) => (
+              <div key={layout.id} className="rounded border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <h4 className="font-medium text-foreground">{layout.name}</h4>
+                    <p className="text-xs text-muted-foreground">
+                      Widths: {layout.slices.map((slice) => slice.width).join(", ")} (repeat {totalWidth(layout)})
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleUseLayout("warp", layout)}>
+                      Warp
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleUseLayout("weft", layout)}>
+                      Weft
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => handleDeleteLayout(layout.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex h-4 overflow-hidden rounded border">
+                  {layout.slices.map((slice, index) => (
+                    <div
+                      key={index}
+                      style={{
+                        flexGrow: slice.width,
+                        backgroundColor: sliceBandColor(index, layout.slices.length),
+                      }}
+                      className="border-r last:border-r-0"
+                      title={`${slice.width} px`}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
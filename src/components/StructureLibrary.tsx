@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Grid2x2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { weaveStructureService, type StructureParams, type WeaveStructure } from "@/lib/supabase";
+import {
+  generateStructure,
+  MAX_STRUCTURE_SIZE,
+  structureFromPattern,
+  structureToPattern,
+  validateStructureParams,
+} from "@/lib/engine";
+import { DEFAULT_STRUCTURE_PARAMS, formatStructureParams, STRUCTURE_KIND_OPTIONS } from "@/lib/processing-options";
+import { StructurePreview } from "@/components/StructurePreview";
+
+interface CountInputProps {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const CountInput = ({ id, label, value, onChange }: CountInputProps) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      min="1"
+      max={MAX_STRUCTURE_SIZE}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value) || 1)}
+    />
+  </div>
+);
+
+// Generates plain, twill, satin and basket structures and shares them globally, next to the
+// pixel sections, for the steps that fill regions with a weave
+export const StructureLibrary = () => {
+  const [structures, setStructures] = useState<WeaveStructure[]>([]);
+  const [params, setParams] = useState<StructureParams>(DEFAULT_STRUCTURE_PARAMS.twill);
+  const [name, setName] = useState("");
+
+  // Load structures from database on mount
+  useEffect(() => {
+    loadStructures();
+
+    // Subscribe to real-time changes
+    const subscription = weaveStructureService.subscribeToStructures(setStructures);
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const loadStructures = async () => {
+    const allStructures = await weaveStructureService.getAllStructures();
+    setStructures(allStructures);
+  };
+
+  const error = validateStructureParams(params);
+  const draft = useMemo(() => (validateStructureParams(params) ? null : generateStructure(params)), [params]);
+  const saved = useMemo(() => new Map(structures.map((structure) => [structure.id, structureFromPattern(structure)])), [structures]);
+
+  const handleSaveStructure = async () => {
+    if (!draft) {
+      toast.error(error ?? "Invalid structure");
+      return;
+    }
+
+    const newStructure = await weaveStructureService.createStructure({
+      name: name.trim() || formatStructureParams(params),
+      width: draft.width,
+      height: draft.height,
+      pattern: structureToPattern(draft),
+      params,
+    });
+
+    if (newStructure) {
+      setName("");
+      toast.success("Structure saved!");
+      loadStructures(); // Refresh the list
+    } else {
+      toast.error("Failed to save structure");
+    }
+  };
+
+  const handleDeleteStructure = async (id: string) => {
+    const success = await weaveStructureService.deleteStructure(id);
+
+    if (success) {
+      toast.success("Structure deleted");
+      loadStructures(); // Refresh the list
+    } else {
+      toast.error("Failed to delete structure");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          <Grid2x2 className="h-5 w-5" />
+          Weave Structures
+        </CardTitle>
+        <CardDescription>
+          Generate plain, twill, satin and basket weaves to fill color regions with
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="structureName">Structure Name</Label>
+              <Input
+                id="structureName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={formatStructureParams(params)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="structureKind">Structure</Label>
+              <Select
+                value={params.kind}
+                onValueChange={(value) => setParams(DEFAULT_STRUCTURE_PARAMS[value as StructureParams['kind']])}
+              >
+                <SelectTrigger id="structureKind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STRUCTURE_KIND_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {params.kind === "twill" && (
+              <>
+                <CountInput id="twillUp" label="Up" value={params.up} onChange={(up) => setParams({ ...params, up })} />
+                <CountInput id="twillDown" label="Down" value={params.down} onChange={(down) => setParams({ ...params, down })} />
+                <div className="space-y-2">
+                  <Label htmlFor="twillDirection">Direction</Label>
+                  <Select
+                    value={params.direction}
+                    onValueChange={(value) => setParams({ ...params, direction: value as "z" | "s" })}
+                  >
+                    <SelectTrigger id="twillDirection">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="z">Z (rising right)</SelectItem>
+                      <SelectItem value="s">S (rising left)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            {params.kind === "satin" && (
+              <>
+                <CountInput id="satinShafts" label="Shafts" value={params.shafts} onChange={(shafts) => setParams({ ...params, shafts })} />
+                <CountInput id="satinMove" label="Move Number" value={params.move} onChange={(move) => setParams({ ...params, move })} />
+                <div className="space-y-2">
+                  <Label htmlFor="satinFace">Face</Label>
+                  <Select
+                    value={params.face}
+                    onValueChange={(value) => setParams({ ...params, face: value as "warp" | "weft" })}
+                  >
+                    <SelectTrigger id="satinFace">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="weft">Weft-faced (sateen)</SelectItem>
+                      <SelectItem value="warp">Warp-faced</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            {params.kind === "basket" && (
+              <>
+                <CountInput id="basketEnds" label="Ends per Group" value={params.ends} onChange={(ends) => setParams({ ...params, ends })} />
+                <CountInput id="basketPicks" label="Picks per Group" value={params.picks} onChange={(picks) => setParams({ ...params, picks })} />
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4">
+            {draft ? (
+              <>
+                <StructurePreview structure={draft} className="h-24 w-24 rounded border" />
+                <p className="text-sm text-muted-foreground">
+                  {formatStructureParams(params)} · repeat {draft.width}×{draft.height}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-destructive">{error}</p>
+            )}
+          </div>
+
+          <Button onClick={handleSaveStructure} disabled={!draft} className="w-full bg-gradient-primary">
+            Share Structure Globally
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {structures.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground">No weave structures yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {structures.map((structure) => {
+                const matrix = saved.get(structure.id);
+
+                return (
+                  <div key={structure.id} className="flex items-center gap-3 rounded border p-3">
+                    {matrix && <StructurePreview structure={matrix} className="h-16 w-16 shrink-0 rounded border" />}
+                    <div className="flex-1 min-w-0">
+                      <h4 className="font-medium text-foreground truncate">{structure.name}</h4>
+                      <p className="text-xs text-muted-foreground">
+                        {formatStructureParams(structure.params)} · {structure.width}×{structure.height}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="destructive" onClick={() => handleDeleteStructure(structure.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
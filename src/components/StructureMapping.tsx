@@ -0,0 +1,208 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Layers } from "lucide-react";
+import { expandIndexed, formatHexColor, getPaletteSize, structureFromPattern, type IndexedImage } from "@/lib/engine";
+import { weaveStructureService, type WeaveStructure } from "@/lib/supabase";
+import { formatStructureParams, type StructureMappingSettings } from "@/lib/processing-options";
+import { resolveStructureMapping, type StructureMapping as ResolvedMapping } from "@/lib/structure-mapping";
+import { StructurePreview } from "@/components/StructurePreview";
+
+interface StructureMappingProps {
+  // The first image after color reduction; structures are chosen per palette color
+  design?: IndexedImage;
+  // The design woven with the current mapping, if any
+  weave?: IndexedImage;
+  settings: StructureMappingSettings;
+  onSettingsChange: (settings: StructureMappingSettings) => void;
+  // The mapping to weave with, or null when it is off or no color has a structure
+  onMappingChange: (mapping: ResolvedMapping | null) => void;
+}
+
+// Value of the structure select for colors left as weft
+const NO_STRUCTURE = "none";
+
+const toPreviewUrl = (indexed: IndexedImage): string => {
+  const { width, height, data } = expandIndexed(indexed);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.putImageData(new ImageData(data, width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Jacquard artwork-to-weave: every palette color is filled with a weave structure, giving a
+// full-resolution binary weave that is reordered (before) or made from the reordered design (after)
+export const StructureMapping = ({ design, weave, settings, onSettingsChange, onMappingChange }: StructureMappingProps) => {
+  const [structures, setStructures] = useState<WeaveStructure[]>([]);
+  const { enabled, placement, structureIds, originX, originY } = settings;
+
+  useEffect(() => {
+    weaveStructureService.getAllStructures().then(setStructures);
+    const subscription = weaveStructureService.subscribeToStructures(setStructures);
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const mapping = useMemo(() => resolveStructureMapping(settings, structures), [settings, structures]);
+
+  useEffect(() => {
+    onMappingChange(mapping);
+  }, [mapping, onMappingChange]);
+
+  const previewUrl = useMemo(() => (weave ? toPreviewUrl(weave) : null), [weave]);
+  const matrices = useMemo(
+    () => new Map(structures.map((structure) => [structure.id, structureFromPattern(structure)])),
+    [structures]
+  );
+
+  const update = (changes: Partial<StructureMappingSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  const setStructureId = (index: number, id: string) => {
+    const ids = Array.from({ length: Math.max(structureIds.length, index + 1) }, (_, i) => structureIds[i] ?? "");
+    ids[index] = id === NO_STRUCTURE ? "" : id;
+    update({ structureIds: ids });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Weave Structures per Color
+        </CardTitle>
+        <CardDescription>
+          Fill each color region with a weave structure to get a binary weave for the loom
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="mapStructures"
+            checked={enabled}
+            onCheckedChange={(checked) => update({ enabled: checked })}
+            disabled={!design}
+          />
+          <Label htmlFor="mapStructures">Weave colors as structures</Label>
+        </div>
+        {!design && (
+          <p className="text-sm text-muted-foreground">
+            Reduce colors first, or upload an image with at most 256 colors.
+          </p>
+        )}
+
+        {enabled && design && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="structurePlacement">Step</Label>
+                <Select
+                  value={placement}
+                  onValueChange={(value) => update({ placement: value as StructureMappingSettings['placement'] })}
+                >
+                  <SelectTrigger id="structurePlacement">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="before">Before reordering</SelectItem>
+                    <SelectItem value="after">After reordering</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="structureOriginX">Origin X (px)</Label>
+                <Input
+                  id="structureOriginX"
+                  type="number"
+                  value={originX}
+                  onChange={(e) => update({ originX: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="structureOriginY">Origin Y (px)</Label>
+                <Input
+                  id="structureOriginY"
+                  type="number"
+                  value={originY}
+                  onChange={(e) => update({ originY: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Every structure repeats from the same origin, so diagonals and floats line up across region borders.
+            </p>
+
+            {structures.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No weave structures saved yet. Create some in the Weave Structures library.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Color</TableHead>
+                    <TableHead>Hex</TableHead>
+                    <TableHead>Structure</TableHead>
+                    <TableHead>Preview</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Array.from({ length: getPaletteSize(design) }, (_, index) => {
+                    const hex = formatHexColor(design.palette, index);
+                    const id = structureIds[index] ?? "";
+                    const matrix = matrices.get(id);
+
+                    return (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <div className="h-5 w-8 rounded border" style={{ backgroundColor: hex }} />
+                        </TableCell>
+                        <TableCell className="font-mono">{hex}</TableCell>
+                        <TableCell>
+                          <Select value={matrix ? id : NO_STRUCTURE} onValueChange={(value) => setStructureId(index, value)}>
+                            <SelectTrigger className="w-56" aria-label={`Structure for ${hex}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_STRUCTURE}>None (weft shows)</SelectItem>
+                              {structures.map((structure) => (
+                                <SelectItem key={structure.id} value={structure.id}>
+                                  {structure.name} · {formatStructureParams(structure.params)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          {matrix && <StructurePreview structure={matrix} minThreads={12} className="h-8 w-8 rounded border" />}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {previewUrl && (
+              <div className="space-y-1 text-center">
+                <p className="text-sm font-medium">Weave ({design.width}×{design.height})</p>
+                <img
+                  src={previewUrl}
+                  alt="Weave"
+                  className="max-w-full max-h-64 mx-auto rounded border"
+                  style={{ imageRendering: 'pixelated' }}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import type { Drawdown } from "@/lib/engine";
+
+interface StructurePreviewProps {
+  structure: Drawdown;
+  // Repeats are tiled until the preview is at least this many threads each way
+  minThreads?: number;
+  className?: string;
+}
+
+// Raised warp is drawn dark, weft light, with the repeat tiled so floats and diagonals show
+export const StructurePreview = ({ structure, minThreads = 16, className }: StructurePreviewProps) => {
+  const src = useMemo(() => {
+    const { width, height, data } = structure;
+    const columns = Math.ceil(minThreads / width) * width;
+    const rows = Math.ceil(minThreads / height) * height;
+    const pixels = new ImageData(columns, rows);
+
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < columns; x++) {
+        const value = data[(y % height) * width + (x % width)] ? 40 : 230;
+        pixels.data.set([value, value, value, 255], (y * columns + x) * 4);
+      }
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = columns;
+    canvas.height = rows;
+    canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+    return canvas.toDataURL('image/png');
+  }, [structure, minThreads]);
+
+  return <img src={src} alt="Weave structure" className={className} style={{ imageRendering: 'pixelated' }} />;
+};
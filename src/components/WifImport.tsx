@@ -0,0 +1,218 @@
+import { useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { pixelSectionService, type PixelSection } from "@/lib/supabase";
+import type { WeaveAxis } from "@/lib/engine";
+import { parseWif, type WifDraft } from "@/lib/formats/wif";
+import { draftLine, draftPartOrientation, draftToPatterns, findRepeat, type DraftPart } from "@/lib/draft-sections";
+import { DRAFT_PART_OPTIONS } from "@/lib/processing-options";
+
+interface WifImportProps {
+  onSequenceChange: (axis: WeaveAxis, sections: PixelSection[]) => void;
+}
+
+// More sections than this are almost certainly a section size the user didn't mean
+const MAX_IMPORTED_SECTIONS = 64;
+
+// Reads threading drafts from WIF files and turns the threading, treadling or tie-up order into
+// library sections, optionally used straight away as the warp or weft sequence
+export const WifImport = ({ onSequenceChange }: WifImportProps) => {
+  const [draft, setDraft] = useState<WifDraft | null>(null);
+  const [name, setName] = useState("");
+  const [part, setPart] = useState<DraftPart>("threading");
+  const [size, setSize] = useState(1);
+  const [firstRepeatOnly, setFirstRepeatOnly] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const line = useMemo(() => (draft ? draftLine(draft, part) : []), [draft, part]);
+  const repeat = useMemo(() => findRepeat(line), [line]);
+  const patterns = useMemo(
+    () => (line.length > 0 ? draftToPatterns(firstRepeatOnly ? line.slice(0, repeat) : line, size) : []),
+    [line, repeat, firstRepeatOnly, size]
+  );
+
+  const selectPart = (nextDraft: WifDraft, nextPart: DraftPart) => {
+    setPart(nextPart);
+    // Default to one section covering one repeat
+    setSize(Math.max(1, findRepeat(draftLine(nextDraft, nextPart))));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parseWif(await file.text());
+      const firstPart = DRAFT_PART_OPTIONS.find((option) => imported[option.value].length > 0)?.value;
+      if (!firstPart) {
+        toast.error(`${file.name} has no threading, treadling or tie-up`);
+        return;
+      }
+
+      setDraft(imported);
+      setName(imported.title ?? file.name.replace(/\.wif$/i, ""));
+      setFirstRepeatOnly(true);
+      selectPart(imported, firstPart);
+      toast.success(`Read ${imported.ends} ends and ${imported.picks} picks from ${file.name}`);
+    } catch (error) {
+      console.error("Error reading WIF file:", error);
+      toast.error(error instanceof Error ? `${file.name}: ${error.message}` : "Failed to read WIF file");
+    }
+  };
+
+  const handleSave = async (axis?: WeaveAxis) => {
+    if (!name.trim()) {
+      toast.error("Please enter a section name");
+      return;
+    }
+
+    if (patterns.length > MAX_IMPORTED_SECTIONS) {
+      toast.error(`That makes ${patterns.length} sections; use a larger section size or only the first repeat`);
+      return;
+    }
+
+    setSaving(true);
+    const partLabel = DRAFT_PART_OPTIONS.find((option) => option.value === part)?.label.split(" ")[0] ?? part;
+    const saved: PixelSection[] = [];
+
+    for (const [k, pattern] of patterns.entries()) {
+      const section = await pixelSectionService.createSection({
+        name: patterns.length === 1 ? `${name.trim()} ${partLabel}` : `${name.trim()} ${partLabel} ${k + 1}/${patterns.length}`,
+        size: pattern.length,
+        pattern,
+        kind: "column",
+        orientation: draftPartOrientation(part),
+      });
+
+      if (!section) {
+        toast.error(`Failed to save section ${k + 1} of ${patterns.length}`);
+        setSaving(false);
+        return;
+      }
+      saved.push(section);
+    }
+
+    setSaving(false);
+    if (axis) {
+      onSequenceChange(axis, saved);
+    }
+    toast.success(
+      `Saved ${saved.length} section${saved.length === 1 ? "" : "s"}${axis ? ` and set the ${axis} sequence` : ""}`
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Import Weaving Draft
+        </CardTitle>
+        <CardDescription>
+          Turn the threading, treadling or tie-up of a WIF draft into pattern sections
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input ref={fileInputRef} type="file" accept=".wif" onChange={handleFileChange} className="hidden" />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2">
+          <Upload className="h-4 w-4" />
+          Import WIF File
+        </Button>
+
+        {draft && (
+          <div className="rounded border p-3 space-y-4">
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {draft.shafts} shafts · {draft.treadles} treadles · {draft.ends} ends · {draft.picks} picks
+              </p>
+              <Button size="sm" variant="outline" onClick={() => setDraft(null)}>
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="wifName">Section Name</Label>
+                <Input id="wifName" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="wifPart">Permutation From</Label>
+                <Select value={part} onValueChange={(value) => selectPart(draft, value as DraftPart)}>
+                  <SelectTrigger id="wifPart">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DRAFT_PART_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value} disabled={draft[option.value].length === 0}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="wifSize">Section Size</Label>
+                <Input
+                  id="wifSize"
+                  type="number"
+                  min="1"
+                  max={line.length}
+                  value={size}
+                  onChange={(e) => setSize(Math.min(Math.max(1, line.length), Math.max(1, parseInt(e.target.value) || 1)))}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="wifFirstRepeat"
+                checked={firstRepeatOnly}
+                onCheckedChange={(checked) => setFirstRepeatOnly(checked === true)}
+              />
+              <Label htmlFor="wifFirstRepeat" className="font-normal">
+                Only the first repeat ({repeat} of {line.length})
+              </Label>
+            </div>
+
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                Order: [{line.slice(0, 48).join(", ")}{line.length > 48 ? ", …" : ""}]
+              </p>
+              <div className="max-h-40 overflow-y-auto font-mono text-xs space-y-0.5">
+                {patterns.slice(0, MAX_IMPORTED_SECTIONS).map((pattern, k) => (
+                  <div key={k}>
+                    {patterns.length > 1 && `${k + 1}: `}[{pattern.join(", ")}]
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Repeated shafts are numbered left to right, so a point draw still gives a valid pattern.
+                {patterns.length > 1 && " Several sections are saved as a sequence."}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => handleSave()} disabled={saving} className="bg-gradient-primary">
+                Save to Library
+              </Button>
+              <Button variant="outline" onClick={() => handleSave("warp")} disabled={saving}>
+                Save & Use for Warp
+              </Button>
+              <Button variant="outline" onClick={() => handleSave("weft")} disabled={saving}>
+                Save & Use for Weft
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { PixelBuffer, ProcessingJob, ProgressCallback } from "@/lib/engine";
+import type { ProcessRequest, ProcessResponse } from "@/workers/protocol";
+
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super("Processing cancelled");
+    this.name = "ProcessingCancelledError";
+  }
+}
+
+interface PendingJob {
+  jobId: number;
+  resolve: (results: PixelBuffer[]) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+const createWorker = () =>
+  new Worker(new URL("../workers/process-image.worker.ts", import.meta.url), { type: "module" });
+
+export function useProcessingWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<PendingJob | null>(null);
+  const nextJobIdRef = useRef(0);
+
+  const handleMessage = useCallback((event: MessageEvent<ProcessResponse>) => {
+    const pending = pendingRef.current;
+    const message = event.data;
+    if (!pending || pending.jobId !== message.jobId) return;
+
+    switch (message.type) {
+      case "progress":
+        pending.onProgress?.(message.completed, message.total);
+        break;
+      case "done":
+        pendingRef.current = null;
+        pending.resolve(
+          message.results.map((result) => ({
+            width: result.width,
+            height: result.height,
+            data: new Uint8ClampedArray(result.buffer),
+          }))
+        );
+        break;
+      case "error":
+        pendingRef.current = null;
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }, []);
+
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      workerRef.current = createWorker();
+      workerRef.current.onmessage = handleMessage;
+      workerRef.current.onerror = (event) => {
+        const pending = pendingRef.current;
+        pendingRef.current = null;
+        pending?.reject(new Error(event.message || "Processing worker failed"));
+      };
+    }
+    return workerRef.current;
+  }, [handleMessage]);
+
+  // A running job can't be interrupted from inside the worker, so cancelling
+  // terminates it and the next job starts a fresh one
+  const cancel = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    pendingRef.current = null;
+    pending.reject(new ProcessingCancelledError());
+  }, []);
+
+  const run = useCallback(
+    (source: PixelBuffer | PixelBuffer[], job: ProcessingJob, onProgress?: ProgressCallback) => {
+      cancel();
+
+      // Resolves with one result per pipeline step
+      return new Promise<PixelBuffer[]>((resolve, reject) => {
+        const jobId = ++nextJobIdRef.current;
+        // Copy so the caller's buffers survive the transfer
+        const sources = (Array.isArray(source) ? source : [source]).map((image) => ({
+          width: image.width,
+          height: image.height,
+          buffer: new Uint8ClampedArray(image.data).buffer,
+        }));
+        const request: ProcessRequest = { type: "process", jobId, sources, job };
+
+        pendingRef.current = { jobId, resolve, reject, onProgress };
+        getWorker().postMessage(request, sources.map((image) => image.buffer));
+      });
+    },
+    [cancel, getWorker]
+  );
+
+  useEffect(() => {
+    return () => {
+      cancel();
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, [cancel]);
+
+  return { run, cancel };
+}
@@ -0,0 +1,49 @@
+import type { WifDraft } from '@/lib/formats/wif';
+import type { SliceOrientation } from '@/lib/supabase';
+
+// Part of a draft read as one shaft (or treadle) number per position
+export type DraftPart = 'threading' | 'tieup' | 'treadling';
+
+// Threading and tie-up run across the warp; treadling runs down the weft
+export const draftPartOrientation = (part: DraftPart): SliceOrientation =>
+  part === 'treadling' ? 'horizontal' : 'vertical';
+
+// The lowest shaft or treadle at each position, 0 where there is none
+export const draftLine = (draft: WifDraft, part: DraftPart): number[] =>
+  draft[part].map((values) => (values.length > 0 ? Math.min(...values) : 0));
+
+// Length of the shortest block the line repeats, allowing a partial last repeat
+export const findRepeat = (line: number[]): number => {
+  for (let period = 1; period < line.length; period++) {
+    if (line.every((value, i) => i < period || value === line[i - period])) {
+      return period;
+    }
+  }
+  return line.length;
+};
+
+// Ranks each position by its value, ties in order of position. A line that is already a
+// permutation of 1..n (a straight or broken draw) comes back unchanged; repeated shafts, as in
+// a point draw, are numbered left to right so the result is still a valid pattern.
+export const rankPattern = (line: number[]): number[] => {
+  const order = line.map((value, i) => ({ value, i })).sort((a, b) => a.value - b.value || a.i - b.i);
+  const pattern = new Array<number>(line.length);
+  order.forEach(({ i }, rank) => {
+    pattern[i] = rank + 1;
+  });
+  return pattern;
+};
+
+// Cuts the line into consecutive sections of `size` positions (the last may be shorter) and
+// turns each into a pattern; a size covering the whole line gives a single section
+export const draftToPatterns = (line: number[], size: number): number[][] => {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new Error('Section size must be at least 1');
+  }
+
+  const patterns: number[][] = [];
+  for (let start = 0; start < line.length; start += size) {
+    patterns.push(rankPattern(line.slice(start, start + size)));
+  }
+  return patterns;
+};
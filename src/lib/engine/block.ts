@@ -0,0 +1,85 @@
+import { createPixelBuffer, getChannels } from './buffer';
+import { invertPattern, validatePattern } from './permutation';
+import type { BlockPattern, PixelBuffer, ReorderOptions } from './types';
+
+export const getTileSize = ({ size, cellSize }: BlockPattern): number => size * Math.max(1, cellSize);
+
+// Returns a user-facing error message, or null when the block pattern is usable
+export const validateBlockPattern = (block: BlockPattern): string | null => {
+  if (!Number.isInteger(block.cellSize) || block.cellSize < 1) {
+    return 'Cell size must be at least 1';
+  }
+
+  return validatePattern(block.pattern, block.size * block.size);
+};
+
+// For every pixel of a tile (row-major), the offset inside the tile of the pixel it is copied from
+export const buildTileMap = (block: BlockPattern, direction: ReorderOptions['direction'] = 'forward'): Int32Array => {
+  const { size } = block;
+  const cellSize = Math.max(1, block.cellSize);
+  const tile = getTileSize(block);
+  const pattern = direction === 'inverse' ? invertPattern(block.pattern) : block.pattern;
+  const map = new Int32Array(tile * tile);
+
+  for (let cell = 0; cell < size * size; cell++) {
+    const targetRow = Math.floor(cell / size) * cellSize;
+    const targetColumn = (cell % size) * cellSize;
+    // Patterns are stored 1-based
+    const sourceCell = pattern[cell] - 1;
+    const sourceRow = Math.floor(sourceCell / size) * cellSize;
+    const sourceColumn = (sourceCell % size) * cellSize;
+
+    for (let dy = 0; dy < cellSize; dy++) {
+      for (let dx = 0; dx < cellSize; dx++) {
+        map[(targetRow + dy) * tile + targetColumn + dx] = (sourceRow + dy) * tile + sourceColumn + dx;
+      }
+    }
+  }
+
+  return map;
+};
+
+// Permutes the cells of every complete tile; partial tiles at the right and bottom edges are left as-is
+export const blockReorder = (
+  source: PixelBuffer,
+  block: BlockPattern,
+  options: ReorderOptions = {}
+): PixelBuffer => {
+  const error = validateBlockPattern(block);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const { width, height, data } = source;
+  const channels = getChannels(source);
+  const result = createPixelBuffer(width, height, channels);
+  const target = result.data;
+  const tile = getTileSize(block);
+  const tileMap = buildTileMap(block, options.direction);
+  const tiledWidth = Math.floor(width / tile) * tile;
+  const tiledHeight = Math.floor(height / tile) * tile;
+
+  target.set(data);
+
+  for (let y = 0; y < tiledHeight; y++) {
+    const tileTop = y - (y % tile);
+    const localRow = (y % tile) * tile;
+
+    for (let x = 0; x < tiledWidth; x++) {
+      const tileLeft = x - (x % tile);
+      const sourceOffset = tileMap[localRow + (x % tile)];
+      const sourceY = tileTop + Math.floor(sourceOffset / tile);
+      const sourceX = tileLeft + (sourceOffset % tile);
+      const targetIndex = (y * width + x) * channels;
+      const sourceIndex = (sourceY * width + sourceX) * channels;
+
+      for (let c = 0; c < channels; c++) {
+        target[targetIndex + c] = data[sourceIndex + c];
+      }
+    }
+
+    options.onProgress?.(y + 1, tiledHeight);
+  }
+
+  return result;
+};
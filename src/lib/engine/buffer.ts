@@ -0,0 +1,49 @@
+import type { PixelBuffer } from './types';
+
+export const CHANNELS = 4;
+
+// Bytes per pixel: 4 for RGBA, 1 for a plane of palette indices
+export const getChannels = ({ width, height, data }: PixelBuffer): number =>
+  width * height > 0 ? data.length / (width * height) : CHANNELS;
+
+// True when every pixel of an RGBA buffer has full alpha
+export const isOpaque = ({ data }: PixelBuffer): boolean => {
+  for (let offset = 3; offset < data.length; offset += CHANNELS) {
+    if (data[offset] !== 255) return false;
+  }
+  return true;
+};
+
+export const createPixelBuffer = (width: number, height: number, channels: number = CHANNELS): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * channels),
+});
+
+export const clonePixelBuffer = ({ width, height, data }: PixelBuffer): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(data),
+});
+
+// Nearest-neighbor copy at most `maxSize` pixels on its longer side, for quick previews; pixels
+// are sampled rather than blended, so palette colors and index planes stay exact
+export const downscalePixelBuffer = (buffer: PixelBuffer, maxSize: number): PixelBuffer => {
+  const { width, height, data } = buffer;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  if (scale === 1) return buffer;
+
+  const channels = getChannels(buffer);
+  const result = createPixelBuffer(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)), channels);
+
+  for (let y = 0; y < result.height; y++) {
+    const sourceY = Math.min(height - 1, Math.floor((y + 0.5) * height / result.height));
+    for (let x = 0; x < result.width; x++) {
+      const sourceX = Math.min(width - 1, Math.floor((x + 0.5) * width / result.width));
+      const offset = (sourceY * width + sourceX) * channels;
+      result.data.set(data.subarray(offset, offset + channels), (y * result.width + x) * channels);
+    }
+  }
+
+  return result;
+};
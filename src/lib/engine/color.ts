@@ -0,0 +1,106 @@
+// CIELAB under the D65 white point: lightness 0–100, then the a (green–red) and b (blue–yellow) axes
+export type LabColor = [number, number, number];
+
+const WHITE_X = 0.95047;
+const WHITE_Y = 1;
+const WHITE_Z = 1.08883;
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+const toLinear = (channel: number) => {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (value: number) => {
+  const encoded = value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return Math.min(255, Math.max(0, Math.round(encoded * 255)));
+};
+
+export const rgbToLab = (r: number, g: number, b: number): LabColor => {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+
+  const f = (t: number) => (t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116);
+  const fx = f((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE_X);
+  const fy = f((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE_Y);
+  const fz = f((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE_Z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+// Colors outside the sRGB gamut are clipped
+export const labToRgb = ([lightness, a, b]: LabColor): [number, number, number] => {
+  const fy = (lightness + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) => (t ** 3 > EPSILON ? t ** 3 : (116 * t - 16) / KAPPA);
+
+  const x = inverse(fx) * WHITE_X;
+  const y = (lightness > KAPPA * EPSILON ? fy ** 3 : lightness / KAPPA) * WHITE_Y;
+  const z = inverse(fz) * WHITE_Z;
+
+  return [
+    fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    fromLinear(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  ];
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Hue angle in degrees, 0–360
+const hueAngle = (a: number, b: number) => {
+  if (a === 0 && b === 0) return 0;
+  const degrees = (Math.atan2(b, a) * 180) / Math.PI;
+  return degrees < 0 ? degrees + 360 : degrees;
+};
+
+// Perceptual color difference (CIE 2000); around 1 is the smallest difference most people notice
+export const ciede2000 = ([l1, a1, b1]: LabColor, [l2, a2, b2]: LabColor): number => {
+  const chroma = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(chroma ** 7 / (chroma ** 7 + 25 ** 7)));
+
+  const a1Prime = (1 + g) * a1;
+  const a2Prime = (1 + g) * a2;
+  const c1 = Math.hypot(a1Prime, b1);
+  const c2 = Math.hypot(a2Prime, b2);
+  const h1 = hueAngle(a1Prime, b1);
+  const h2 = hueAngle(a2Prime, b2);
+
+  let hueDifference = 0;
+  if (c1 * c2 !== 0) {
+    hueDifference = h2 - h1;
+    if (hueDifference > 180) hueDifference -= 360;
+    else if (hueDifference < -180) hueDifference += 360;
+  }
+
+  const deltaL = l2 - l1;
+  const deltaC = c2 - c1;
+  const deltaH = 2 * Math.sqrt(c1 * c2) * Math.sin(toRadians(hueDifference / 2));
+
+  const meanL = (l1 + l2) / 2;
+  const meanC = (c1 + c2) / 2;
+  let meanH = h1 + h2;
+  if (c1 * c2 !== 0) {
+    meanH = Math.abs(h1 - h2) <= 180 ? (h1 + h2) / 2 : h1 + h2 < 360 ? (h1 + h2 + 360) / 2 : (h1 + h2 - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(meanH - 30)) +
+    0.24 * Math.cos(toRadians(2 * meanH)) +
+    0.32 * Math.cos(toRadians(3 * meanH + 6)) -
+    0.2 * Math.cos(toRadians(4 * meanH - 63));
+  const rotation = 30 * Math.exp(-(((meanH - 275) / 25) ** 2));
+  const rc = 2 * Math.sqrt(meanC ** 7 / (meanC ** 7 + 25 ** 7));
+  const sl = 1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2);
+  const sc = 1 + 0.045 * meanC;
+  const sh = 1 + 0.015 * meanC * t;
+  const rt = -Math.sin(toRadians(2 * rotation)) * rc;
+
+  return Math.sqrt(
+    (deltaL / sl) ** 2 + (deltaC / sc) ** 2 + (deltaH / sh) ** 2 + rt * (deltaC / sc) * (deltaH / sh)
+  );
+};
@@ -0,0 +1,86 @@
+import { labToRgb, rgbToLab } from './color';
+import { getPaletteSize } from './indexed';
+
+// hue-rotation turns every color by the same angle; the other rules spread the colors over
+// the harmony's hues around a turning base hue, keeping each color's lightness and chroma
+export type HarmonyRule = 'hue-rotation' | 'complementary' | 'analogous' | 'triadic' | 'split-complementary' | 'tetradic';
+
+// Hue offsets in degrees from the base hue, handed out to the colors in turn
+const HARMONY_OFFSETS: Record<Exclude<HarmonyRule, 'hue-rotation'>, number[]> = {
+  complementary: [0, 180],
+  analogous: [0, 30, -30],
+  triadic: [0, 120, 240],
+  'split-complementary': [0, 150, 210],
+  tetradic: [0, 90, 180, 270],
+};
+
+// Colors with less chroma than this are treated as neutral and keep no hue of their own
+const NEUTRAL_CHROMA = 5;
+
+export const MAX_COLORWAYS = 12;
+
+interface LchColor {
+  lightness: number;
+  chroma: number;
+  hue: number;
+}
+
+const toLch = (palette: Uint8Array, index: number): LchColor => {
+  const [lightness, a, b] = rgbToLab(palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2]);
+  return { lightness, chroma: Math.hypot(a, b), hue: (Math.atan2(b, a) * 180) / Math.PI };
+};
+
+const fromLch = ({ lightness, chroma, hue }: LchColor): [number, number, number] => {
+  const radians = (hue * Math.PI) / 180;
+  return labToRgb([lightness, chroma * Math.cos(radians), chroma * Math.sin(radians)]);
+};
+
+// One colorway: the palette turned by `angle` degrees (hue-rotation) or redistributed over the
+// harmony's hues starting `angle` degrees from the first colored entry's hue
+export const applyHarmony = (palette: Uint8Array, rule: HarmonyRule, angle: number): Uint8Array => {
+  const colors = Array.from({ length: getPaletteSize({ palette }) }, (_, i) => toLch(palette, i));
+  const result = new Uint8Array(palette.length);
+
+  const baseHue = colors.find((color) => color.chroma >= NEUTRAL_CHROMA)?.hue ?? 0;
+  let chromatic = 0;
+
+  colors.forEach((color, i) => {
+    let hue = color.hue + angle;
+
+    if (rule !== 'hue-rotation' && color.chroma >= NEUTRAL_CHROMA) {
+      const offsets = HARMONY_OFFSETS[rule];
+      hue = baseHue + angle + offsets[chromatic % offsets.length];
+      chromatic++;
+    }
+
+    // Neutrals stay as they are, so whites and blacks don't pick up a tint
+    result.set(color.chroma < NEUTRAL_CHROMA ? palette.subarray(i * 3, i * 3 + 3) : fromLch({ ...color, hue }), i * 3);
+  });
+
+  return result;
+};
+
+// `count` colorways with the base hue turned in even steps, none of them the original
+export const generateColorways = (palette: Uint8Array, rule: HarmonyRule, count: number): Uint8Array[] => {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_COLORWAYS) {
+    throw new Error(`Colorway count must be between 1 and ${MAX_COLORWAYS}`);
+  }
+
+  return Array.from({ length: count }, (_, k) => applyHarmony(palette, rule, ((k + 1) * 360) / (count + 1)));
+};
+
+// A saved palette as a colorway: palette entry i takes color i, wrapping around when the
+// saved palette has fewer colors than the design
+export const assignColorway = (palette: Uint8Array, colors: Uint8Array): Uint8Array => {
+  const available = getPaletteSize({ palette: colors });
+  if (available === 0) {
+    throw new Error('The colorway palette has no colors');
+  }
+
+  const result = new Uint8Array(palette.length);
+  for (let i = 0; i < getPaletteSize({ palette }); i++) {
+    result.set(colors.subarray((i % available) * 3, (i % available) * 3 + 3), i * 3);
+  }
+
+  return result;
+};
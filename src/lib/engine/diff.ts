@@ -0,0 +1,46 @@
+import { getChannels } from './buffer';
+import type { PixelBuffer } from './types';
+
+export interface PixelDiff {
+  sizeMatches: boolean;
+  // Pixels compared: the overlapping region when the sizes differ
+  comparedPixels: number;
+  differentPixels: number;
+  maxChannelDelta: number;
+}
+
+// Compares two buffers pixel by pixel over their overlapping top-left region
+export const diffPixelBuffers = (a: PixelBuffer, b: PixelBuffer): PixelDiff => {
+  const width = Math.min(a.width, b.width);
+  const height = Math.min(a.height, b.height);
+  const channels = getChannels(a);
+  let differentPixels = 0;
+  let maxChannelDelta = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const aIndex = (y * a.width + x) * channels;
+      const bIndex = (y * b.width + x) * channels;
+      let differs = false;
+
+      for (let c = 0; c < channels; c++) {
+        const delta = Math.abs(a.data[aIndex + c] - b.data[bIndex + c]);
+        if (delta > 0) {
+          differs = true;
+          maxChannelDelta = Math.max(maxChannelDelta, delta);
+        }
+      }
+
+      if (differs) differentPixels++;
+    }
+  }
+
+  return {
+    sizeMatches: a.width === b.width && a.height === b.height,
+    comparedPixels: width * height,
+    differentPixels,
+    maxChannelDelta,
+  };
+};
+
+export const isLossless = (diff: PixelDiff): boolean => diff.sizeMatches && diff.differentPixels === 0;
@@ -0,0 +1,147 @@
+import { getChannels } from './buffer';
+import type { IndexedImage, PixelBuffer } from './types';
+
+// Binary weave in image orientation: one entry per pixel, row-major from the top, 1 where the
+// warp end (column) is raised over the pick (row) and 0 where the weft shows
+export interface Drawdown {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Threading, tie-up and treadling (or a liftplan) that weave a drawdown. Shafts and treadles
+// are 1-based and numbered in order of first use; picks are in image row order (top row first).
+export interface LoomDraft {
+  shafts: number;
+  treadles: number;
+  // Shaft for each end, left to right
+  threading: number[];
+  // Shafts raised by each treadle
+  tieup: number[][];
+  // Treadle for each pick
+  treadling: number[];
+  // Shafts raised on each pick
+  liftplan: number[][];
+}
+
+const luminance = (data: Uint8ClampedArray, offset: number) =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+
+// Dark pixels (luminance below `threshold`) raise the warp
+export const thresholdDrawdown = (buffer: PixelBuffer, threshold: number): Drawdown => {
+  const { width, height, data } = buffer;
+  const channels = getChannels(buffer);
+  const result = new Uint8Array(width * height);
+
+  for (let i = 0; i < result.length; i++) {
+    const offset = i * channels;
+    result[i] = (channels >= 3 ? luminance(data, offset) : data[offset]) < threshold ? 1 : 0;
+  }
+
+  return { width, height, data: result };
+};
+
+// Pixels whose palette index is in `raised` raise the warp
+export const indexedDrawdown = ({ width, height, indices }: IndexedImage, raised: number[]): Drawdown => {
+  const lookup = new Uint8Array(256);
+  raised.forEach((index) => {
+    lookup[index] = 1;
+  });
+
+  return { width, height, data: indices.map((index) => lookup[index]) };
+};
+
+// The drawdown as a two-color image: index 0 (white) where the weft shows, 1 (black) where the
+// warp is raised
+export const drawdownToIndexed = ({ width, height, data }: Drawdown): IndexedImage => ({
+  width,
+  height,
+  indices: Uint8Array.from(data),
+  palette: Uint8Array.of(255, 255, 255, 0, 0, 0),
+});
+
+// Gives every distinct column its own shaft and every distinct row of shaft lifts its own treadle
+export const deriveDraft = ({ width, height, data }: Drawdown): LoomDraft => {
+  const decoder = new TextDecoder('latin1');
+  const column = new Uint8Array(height);
+  const shaftByColumn = new Map<string, number>();
+  // One representative end per shaft
+  const shaftEnds: number[] = [];
+  const threading: number[] = [];
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      column[y] = data[y * width + x];
+    }
+
+    const key = decoder.decode(column);
+    let shaft = shaftByColumn.get(key);
+    if (shaft === undefined) {
+      shaftEnds.push(x);
+      shaft = shaftEnds.length;
+      shaftByColumn.set(key, shaft);
+    }
+    threading.push(shaft);
+  }
+
+  const treadleByLift = new Map<string, number>();
+  const tieup: number[][] = [];
+  const treadling: number[] = [];
+  const liftplan: number[][] = [];
+
+  for (let y = 0; y < height; y++) {
+    const lifted: number[] = [];
+    shaftEnds.forEach((x, s) => {
+      if (data[y * width + x]) lifted.push(s + 1);
+    });
+    liftplan.push(lifted);
+
+    const key = lifted.join(',');
+    let treadle = treadleByLift.get(key);
+    if (treadle === undefined) {
+      tieup.push(lifted);
+      treadle = tieup.length;
+      treadleByLift.set(key, treadle);
+    }
+    treadling.push(treadle);
+  }
+
+  return { shafts: shaftEnds.length, treadles: tieup.length, threading, tieup, treadling, liftplan };
+};
+
+// Returns a user-facing error message, or null when the draft can be woven on `shafts` shafts
+export const validateShaftCount = (loom: LoomDraft, shafts: number): string | null => {
+  if (!Number.isInteger(shafts) || shafts < 1) {
+    return 'Shaft count must be at least 1';
+  }
+
+  if (loom.shafts > shafts) {
+    return `The design has ${loom.shafts} distinct ends, ${loom.shafts - shafts} more than the ${shafts} shafts available`;
+  }
+
+  return null;
+};
+
+// Mean color of the raised and of the lowered pixels, as warp and weft yarn colors; black and
+// white stand in for a side with no pixels
+export const drawdownColors = (
+  buffer: PixelBuffer,
+  drawdown: Drawdown
+): { warp: [number, number, number]; weft: [number, number, number] } => {
+  const channels = getChannels(buffer);
+  const sums = [new Array<number>(4).fill(0), new Array<number>(4).fill(0)];
+
+  for (let i = 0; i < drawdown.data.length; i++) {
+    const sum = sums[drawdown.data[i]];
+    const offset = i * channels;
+    for (let c = 0; c < 3; c++) {
+      sum[c] += buffer.data[offset + (channels >= 3 ? c : 0)];
+    }
+    sum[3]++;
+  }
+
+  const mean = ([r, g, b, count]: number[], fallback: number): [number, number, number] =>
+    count === 0 ? [fallback, fallback, fallback] : [Math.round(r / count), Math.round(g / count), Math.round(b / count)];
+
+  return { warp: mean(sums[1], 0), weft: mean(sums[0], 255) };
+};
@@ -0,0 +1,73 @@
+export type {
+  BlockPattern,
+  IndexedImage,
+  PixelBuffer,
+  ProcessingDirection,
+  ProgressCallback,
+  ReorderOptions,
+  RemainderStrategy,
+  RowOffset,
+  SectionPattern,
+  SectionSequence,
+  SliceOrientation,
+  WeaveAxis,
+} from './types';
+export { CHANNELS, clonePixelBuffer, createPixelBuffer, downscalePixelBuffer, getChannels, isOpaque } from './buffer';
+export type { SlicePlan } from './permutation';
+export {
+  buildInverseSliceMap,
+  buildSliceMap,
+  getOutputLength,
+  getRemainder,
+  getRowOffset,
+  invertPattern,
+  invertSliceMap,
+  layoutSlices,
+  rotatePattern,
+  toSequence,
+  truncatePattern,
+  validatePattern,
+} from './permutation';
+export type { SliceMaps, WeaveSections } from './reorder';
+export { applySliceMaps, reorderPixels, weaveReorder } from './reorder';
+export type { PipelineOptions, PipelineStep, ProcessingJob } from './job';
+export { invertPipeline, runPipelineStep, runProcessingJob } from './job';
+export type { PixelDiff } from './diff';
+export { diffPixelBuffers, isLossless } from './diff';
+export { blockReorder, buildTileMap, getTileSize, validateBlockPattern } from './block';
+export { buildImageMap, interleaveImages, validateInterleaveSources } from './interleave';
+export {
+  countPaletteUsage,
+  expandIndexed,
+  formatHexColor,
+  fromIndexPlane,
+  getPaletteSize,
+  indexIntoPalette,
+  indexPixels,
+  MAX_PALETTE_COLORS,
+  parseHexPalette,
+  toIndexPlane,
+} from './indexed';
+export type { ColorDistance, MapToPaletteOptions, QuantizeMethod } from './quantize';
+export { buildPalette, createColorMatcher, findNearestColor, mapToPalette } from './quantize';
+export type { LabColor } from './color';
+export { ciede2000, labToRgb, rgbToLab } from './color';
+export type { HarmonyRule } from './colorway';
+export { applyHarmony, assignColorway, generateColorways, MAX_COLORWAYS } from './colorway';
+export type { Drawdown, LoomDraft } from './draft';
+export {
+  deriveDraft,
+  drawdownColors,
+  drawdownToIndexed,
+  indexedDrawdown,
+  thresholdDrawdown,
+  validateShaftCount,
+} from './draft';
+export {
+  fillStructures,
+  generateStructure,
+  MAX_STRUCTURE_SIZE,
+  structureFromPattern,
+  structureToPattern,
+  validateStructureParams,
+} from './structure';
@@ -0,0 +1,120 @@
+import { CHANNELS, createPixelBuffer } from './buffer';
+import type { IndexedImage, PixelBuffer } from './types';
+
+export const MAX_PALETTE_COLORS = 256;
+
+export const getPaletteSize = ({ palette }: Pick<IndexedImage, 'palette'>): number => palette.length / 3;
+
+const colorKey = (r: number, g: number, b: number): number => (r << 16) | (g << 8) | b;
+
+export const formatHexColor = (palette: Uint8Array, index: number): string =>
+  `#${colorKey(palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2]).toString(16).padStart(6, '0')}`;
+
+// RGB triplets from hex colors such as "#1a2b3c" or "1A2B3C", separated by commas, spaces or new lines
+export const parseHexPalette = (text: string): Uint8Array => {
+  const tokens = text.split(/[\s,;]+/).filter(Boolean);
+
+  return Uint8Array.from(
+    tokens.flatMap((token) => {
+      const match = /^#?([0-9a-f]{6})$/i.exec(token);
+      if (!match) {
+        throw new Error(`"${token}" is not a hex color like #1a2b3c`);
+      }
+      const value = parseInt(match[1], 16);
+      return [value >> 16, (value >> 8) & 0xff, value & 0xff];
+    })
+  );
+};
+
+// Gives every distinct color an index, in order of first appearance.
+// Returns null when the image has more colors than fit.
+export const indexPixels = (
+  { width, height, data }: PixelBuffer,
+  maxColors: number = MAX_PALETTE_COLORS
+): IndexedImage | null => {
+  const lookup = new Map<number, number>();
+  const palette: number[] = [];
+  const indices = new Uint8Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const offset = i * CHANNELS;
+    const key = colorKey(data[offset], data[offset + 1], data[offset + 2]);
+    let index = lookup.get(key);
+
+    if (index === undefined) {
+      if (lookup.size === maxColors) return null;
+      index = lookup.size;
+      lookup.set(key, index);
+      palette.push(data[offset], data[offset + 1], data[offset + 2]);
+    }
+
+    indices[i] = index;
+  }
+
+  return { width, height, indices, palette: Uint8Array.from(palette) };
+};
+
+// Indexes every pixel into an existing palette; the first matching entry wins when colors repeat
+export const indexIntoPalette = ({ width, height, data }: PixelBuffer, palette: Uint8Array): IndexedImage => {
+  const lookup = new Map<number, number>();
+  const indices = new Uint8Array(width * height);
+
+  for (let i = getPaletteSize({ palette }) - 1; i >= 0; i--) {
+    lookup.set(colorKey(palette[i * 3], palette[i * 3 + 1], palette[i * 3 + 2]), i);
+  }
+
+  for (let i = 0; i < width * height; i++) {
+    const offset = i * CHANNELS;
+    const index = lookup.get(colorKey(data[offset], data[offset + 1], data[offset + 2]));
+
+    if (index === undefined) {
+      const color = Uint8Array.of(data[offset], data[offset + 1], data[offset + 2]);
+      throw new Error(`Color ${formatHexColor(color, 0)} at pixel ${i % width}, ${Math.floor(i / width)} is not in the palette`);
+    }
+
+    indices[i] = index;
+  }
+
+  return { width, height, indices, palette };
+};
+
+// Opaque RGBA pixels for display and RGB exports
+export const expandIndexed = ({ width, height, indices, palette }: IndexedImage): PixelBuffer => {
+  const result = createPixelBuffer(width, height);
+  const target = result.data;
+
+  for (let i = 0; i < indices.length; i++) {
+    const color = indices[i] * 3;
+    target[i * CHANNELS] = palette[color];
+    target[i * CHANNELS + 1] = palette[color + 1];
+    target[i * CHANNELS + 2] = palette[color + 2];
+    target[i * CHANNELS + 3] = 255;
+  }
+
+  return result;
+};
+
+// One-channel buffer the engine can reorder; it shares memory with the indices
+export const toIndexPlane = ({ width, height, indices }: IndexedImage): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(indices.buffer, indices.byteOffset, indices.length),
+});
+
+export const fromIndexPlane = ({ width, height, data }: PixelBuffer, palette: Uint8Array): IndexedImage => ({
+  width,
+  height,
+  indices: new Uint8Array(data.buffer, data.byteOffset, data.length),
+  palette,
+});
+
+// Number of pixels using each palette entry
+export const countPaletteUsage = ({ indices, palette }: IndexedImage): number[] => {
+  const counts = new Array<number>(getPaletteSize({ palette })).fill(0);
+
+  for (let i = 0; i < indices.length; i++) {
+    counts[indices[i]]++;
+  }
+
+  return counts;
+};
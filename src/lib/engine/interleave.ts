@@ -0,0 +1,106 @@
+import { createPixelBuffer, getChannels } from './buffer';
+import { getOutputLength, layoutSlices, toSequence } from './permutation';
+import { assertValidSections, warpSliceMaps, type SliceMaps } from './reorder';
+import type { PixelBuffer, ReorderOptions, SectionPattern, SectionSequence } from './types';
+
+// Which image every target column comes from: column i of a slice takes image i mod imageCount.
+// Columns after the last complete slice count on from the start of the leftover.
+export const buildImageMap = (
+  length: number,
+  imageCount: number,
+  sections?: SectionPattern | SectionSequence,
+  remainder: ReorderOptions['remainder'] = 'keep'
+): Int32Array => {
+  const outputLength = sections ? getOutputLength(length, sections, remainder) : length;
+  const covered = sections ? layoutSlices(length, sections).covered : 0;
+  const map = new Int32Array(outputLength);
+
+  if (sections) {
+    for (const { start, section } of layoutSlices(length, sections).slices) {
+      for (let i = 0; i < section.size; i++) {
+        map[start + i] = i % imageCount;
+      }
+    }
+  }
+
+  for (let x = covered; x < outputLength; x++) {
+    map[x] = (x - covered) % imageCount;
+  }
+
+  return map;
+};
+
+// Returns a user-facing error message, or null when the images can be interleaved
+export const validateInterleaveSources = (sources: PixelBuffer[]): string | null => {
+  if (sources.length === 0) {
+    return 'Add at least one image to interleave';
+  }
+
+  const [{ width, height }] = sources;
+  const channels = getChannels(sources[0]);
+  const mismatch = sources.findIndex(
+    source => source.width !== width || source.height !== height || getChannels(source) !== channels
+  );
+
+  if (mismatch !== -1) {
+    const { width: otherWidth, height: otherHeight } = sources[mismatch];
+    if (otherWidth !== width || otherHeight !== height) {
+      return `Image ${mismatch + 1} is ${otherWidth}×${otherHeight} but the first image is ${width}×${height}`;
+    }
+    return `Image ${mismatch + 1} doesn't use the same pixel format as the first image`;
+  }
+
+  return null;
+};
+
+// Weaves several images of the same size into one. The warp slice pattern picks the source
+// column as usual and the column's position in its slice picks the image, so every target
+// column references an (image, column) pair. Without sections, column x comes from image x mod n.
+export const interleaveImages = (
+  sources: PixelBuffer[],
+  sections?: SectionPattern | SectionSequence,
+  options: Omit<ReorderOptions, 'orientation'> = {}
+): PixelBuffer => {
+  const error = validateInterleaveSources(sources);
+  if (error) {
+    throw new Error(error);
+  }
+
+  if (options.direction === 'inverse') {
+    throw new Error('Interleaved images can only be woven forward');
+  }
+
+  const sequence = sections ? toSequence(sections) : [];
+  assertValidSections(sequence);
+
+  const { width, height } = sources[0];
+  const channels = getChannels(sources[0]);
+  const {
+    columnMap = Int32Array.from({ length: width }, (_, x) => x),
+    columnMapForRow,
+  }: SliceMaps = sequence.length > 0 ? warpSliceMaps(width, sequence, options) : {};
+  const imageMap = buildImageMap(width, sources.length, sequence.length > 0 ? sequence : undefined, options.remainder);
+  const outputWidth = imageMap.length;
+  const result = createPixelBuffer(outputWidth, height, channels);
+  const target = result.data;
+
+  for (let y = 0; y < height; y++) {
+    const rowColumnMap = columnMapForRow ? columnMapForRow(y, y) : columnMap;
+    const sourceRowStart = y * width;
+    const targetRowStart = y * outputWidth;
+
+    for (let x = 0; x < outputWidth; x++) {
+      const data = sources[imageMap[x]].data;
+      const targetIndex = (targetRowStart + x) * channels;
+      const sourceIndex = (sourceRowStart + rowColumnMap[x]) * channels;
+
+      for (let c = 0; c < channels; c++) {
+        target[targetIndex + c] = data[sourceIndex + c];
+      }
+    }
+
+    options.onProgress?.(y + 1, height);
+  }
+
+  return result;
+};
@@ -0,0 +1,101 @@
+import { blockReorder } from './block';
+import { interleaveImages } from './interleave';
+import { weaveReorder, type WeaveSections } from './reorder';
+import type {
+  BlockPattern,
+  PixelBuffer,
+  ProcessingDirection,
+  ReorderOptions,
+  RemainderStrategy,
+  RowOffset,
+} from './types';
+
+// One pass over the image: a warp and/or weft section, optionally a block section applied
+// before them, plus the options for that pass
+export interface PipelineStep extends WeaveSections {
+  block?: BlockPattern;
+  remainder?: RemainderStrategy;
+  direction?: ProcessingDirection;
+  rowOffset?: RowOffset;
+}
+
+// Everything needed to process one image, serialisable so it can be posted to a worker
+export interface ProcessingJob {
+  steps: PipelineStep[];
+}
+
+export interface PipelineOptions extends Pick<ReorderOptions, 'onProgress'> {
+  onStepComplete?: (index: number, result: PixelBuffer) => void;
+}
+
+export const runPipelineStep = (
+  source: PixelBuffer,
+  { block, remainder, direction, rowOffset, ...sections }: PipelineStep,
+  options: ReorderOptions = {}
+): PixelBuffer => {
+  const hasSections = [sections.warp, sections.weft].some(s => s && (!Array.isArray(s) || s.length > 0));
+  const weave = (buffer: PixelBuffer) =>
+    hasSections ? weaveReorder(buffer, sections, { ...options, remainder, direction, rowOffset }) : buffer;
+  const tile = (buffer: PixelBuffer) =>
+    block ? blockReorder(buffer, block, { ...options, direction }) : buffer;
+
+  if (!block && !hasSections) {
+    throw new Error('Select a warp, weft or block section to process');
+  }
+
+  // Undo in the opposite order: the block pass comes first going forward
+  return direction === 'inverse' ? tile(weave(source)) : weave(tile(source));
+};
+
+// First step of a job over several images: the warp interleaves them into one, then the
+// step's weft and block sections run on the interleaved image
+const runInterleavedStep = (
+  sources: PixelBuffer[],
+  { warp, ...step }: PipelineStep,
+  options: ReorderOptions = {}
+): PixelBuffer => {
+  const hasWeft = step.weft !== undefined && (!Array.isArray(step.weft) || step.weft.length > 0);
+  const hasOtherSections = Boolean(step.block) || hasWeft;
+  const report = (offset: number) => (completed: number, total: number) =>
+    options.onProgress?.(offset + completed / total, hasOtherSections ? 2 : 1);
+  const interleaved = interleaveImages(sources, warp, { ...step, onProgress: report(0) });
+
+  return hasOtherSections ? runPipelineStep(interleaved, step, { onProgress: report(1) }) : interleaved;
+};
+
+// Runs every step on the previous step's output and returns all intermediate results, last one final.
+// Several sources are interleaved by the first step. Progress is reported across the whole
+// pipeline, with `completed` counting fractional steps.
+export const runProcessingJob = (
+  source: PixelBuffer | PixelBuffer[],
+  { steps }: ProcessingJob,
+  options: PipelineOptions = {}
+): PixelBuffer[] => {
+  if (steps.length === 0) {
+    throw new Error('Add at least one step to process');
+  }
+
+  const sources = Array.isArray(source) ? source : [source];
+  const results: PixelBuffer[] = [];
+  let current = sources[0];
+
+  steps.forEach((step, index) => {
+    const stepOptions: ReorderOptions = {
+      onProgress: (completed, total) => options.onProgress?.(index + completed / total, steps.length),
+    };
+    current = index === 0 && sources.length > 1
+      ? runInterleavedStep(sources, step, stepOptions)
+      : runPipelineStep(current, step, stepOptions);
+    results.push(current);
+    options.onStepComplete?.(index, current);
+  });
+
+  return results;
+};
+
+// Steps that undo a pipeline: the same steps in reverse order, each in the opposite direction
+export const invertPipeline = (steps: PipelineStep[]): PipelineStep[] =>
+  [...steps].reverse().map(step => ({
+    ...step,
+    direction: step.direction === 'inverse' ? 'forward' : 'inverse',
+  }));
@@ -0,0 +1,173 @@
+import type { RemainderStrategy, RowOffset, SectionPattern, SectionSequence } from './types';
+
+// Returns a user-facing error message, or null when the pattern is a valid permutation of 1..size
+export const validatePattern = (pattern: number[], size: number): string | null => {
+  if (!Number.isInteger(size) || size < 1) {
+    return 'Pattern size must be at least 1';
+  }
+
+  if (pattern.length !== size) {
+    return `Pattern must contain exactly ${size} numbers`;
+  }
+
+  if (pattern.some(isNaN) || pattern.some(p => !Number.isInteger(p) || p < 1 || p > size)) {
+    return `Pattern must contain numbers between 1 and ${size}`;
+  }
+
+  if (new Set(pattern).size !== pattern.length) {
+    return 'Pattern cannot contain duplicate numbers';
+  }
+
+  return null;
+};
+
+const mod = (value: number, divisor: number): number => ((value % divisor) + divisor) % divisor;
+
+// Shifts the pattern entries `offset` positions to the right, wrapping around
+export const rotatePattern = (pattern: number[], offset: number): number[] =>
+  pattern.map((_, i) => pattern[mod(i - offset, pattern.length)]);
+
+// Shift used for row `y` when the pattern steps along on every pick; each section
+// reduces it modulo its own size when rotating
+export const getRowOffset = (y: number, { step, repeat }: RowOffset): number =>
+  Math.floor(y / Math.max(1, repeat)) * step;
+
+export const toSequence = (sections: SectionPattern | SectionSequence): SectionSequence =>
+  Array.isArray(sections) ? sections : [sections];
+
+export interface SlicePlan {
+  // Complete slices, each with the section laid out on it
+  slices: { start: number; section: SectionPattern }[];
+  // Length covered by complete slices
+  covered: number;
+  // Section that would come next, and doesn't fit in the leftover
+  next: SectionPattern;
+}
+
+// Lays the sequence out cyclically (slice k uses sequence[k mod n]) until the next slice no longer fits
+export const layoutSlices = (length: number, sections: SectionPattern | SectionSequence): SlicePlan => {
+  const sequence = toSequence(sections);
+  const slices: SlicePlan['slices'] = [];
+  let start = 0;
+  let next = sequence[0];
+
+  while (start + next.size <= length) {
+    slices.push({ start, section: next });
+    start += next.size;
+    next = sequence[slices.length % sequence.length];
+  }
+
+  return { slices, covered: start, next };
+};
+
+// Number of columns (or rows) left over after the last complete slice
+export const getRemainder = (length: number, sections: SectionPattern | SectionSequence): number =>
+  length - layoutSlices(length, sections).covered;
+
+// Keeps only the pattern entries that address one of the first `length` positions,
+// in their original order, so the result is still a permutation of 1..length
+export const truncatePattern = (pattern: number[], length: number): number[] =>
+  pattern.filter(p => p <= length);
+
+const outputLengthOf = (length: number, { covered, next }: SlicePlan, remainder: RemainderStrategy): number => {
+  switch (remainder) {
+    case 'crop':
+      return covered;
+    case 'pad-edge':
+    case 'pad-mirror':
+      return covered === length ? length : covered + next.size;
+    default:
+      return length;
+  }
+};
+
+// Output length after the remainder strategy is applied
+export const getOutputLength = (
+  length: number,
+  sections: SectionPattern | SectionSequence,
+  remainder: RemainderStrategy = 'keep'
+): number => outputLengthOf(length, layoutSlices(length, sections), remainder);
+
+// Resolves a position on the padded line back to a real source position
+const resolvePadded = (position: number, length: number, remainder: RemainderStrategy): number => {
+  if (position < length) return position;
+
+  if (remainder === 'pad-mirror') {
+    // Reflect about the last pixel, repeating it once: ... a b c | c b a ...
+    return Math.max(0, 2 * length - 1 - position);
+  }
+
+  return length - 1;
+};
+
+// Maps every target column (or row) to the source column (or row) it is copied from.
+// The map is as long as the output, which differs from `length` when cropping or padding.
+export const buildSliceMap = (
+  length: number,
+  sections: SectionPattern | SectionSequence,
+  remainder: RemainderStrategy = 'keep'
+): Int32Array => {
+  const layout = layoutSlices(length, sections);
+  const outputLength = outputLengthOf(length, layout, remainder);
+  const map = new Int32Array(outputLength);
+
+  for (let i = 0; i < outputLength; i++) {
+    map[i] = resolvePadded(i, length, remainder);
+  }
+
+  const slices = [...layout.slices];
+  const leftover = outputLength - layout.covered;
+
+  if (leftover > 0 && leftover === layout.next.size) {
+    // Padded to a full slice
+    slices.push({ start: layout.covered, section: layout.next });
+  }
+
+  for (const { start, section } of slices) {
+    for (let i = 0; i < section.size; i++) {
+      // Patterns are stored 1-based
+      map[start + i] = resolvePadded(start + section.pattern[i] - 1, length, remainder);
+    }
+  }
+
+  if (remainder === 'truncate' && leftover > 0) {
+    const truncated = truncatePattern(layout.next.pattern, leftover);
+
+    for (let i = 0; i < leftover; i++) {
+      map[layout.covered + i] = layout.covered + truncated[i] - 1;
+    }
+  }
+
+  return map;
+};
+
+// Inverse of a 1-based pattern: applying the pattern and then its inverse restores the original order
+export const invertPattern = (pattern: number[]): number[] => {
+  const inverse = new Array<number>(pattern.length);
+
+  pattern.forEach((source, target) => {
+    inverse[source - 1] = target + 1;
+  });
+
+  return inverse;
+};
+
+// Inverse of a slice map that is a permutation of its own positions
+export const invertSliceMap = (map: Int32Array): Int32Array => {
+  const inverse = new Int32Array(map.length);
+
+  for (let i = 0; i < map.length; i++) {
+    inverse[map[i]] = i;
+  }
+
+  return inverse;
+};
+
+// Slice map that restores an image processed with `sections`. Cropping and padding can't be
+// undone, but their output is a whole number of slices, so the inverse only has to reverse
+// the permutation; padded pixels stay in the restored image.
+export const buildInverseSliceMap = (
+  length: number,
+  sections: SectionPattern | SectionSequence,
+  remainder: RemainderStrategy = 'keep'
+): Int32Array => invertSliceMap(buildSliceMap(length, sections, remainder === 'truncate' ? 'truncate' : 'keep'));
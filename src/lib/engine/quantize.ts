@@ -0,0 +1,413 @@
+import { CHANNELS } from './buffer';
+import { ciede2000, rgbToLab } from './color';
+import { getPaletteSize, MAX_PALETTE_COLORS } from './indexed';
+import type { IndexedImage, PixelBuffer } from './types';
+
+// How the reduced palette is chosen: median cut splits the color space at medians, k-means
+// refines the median cut colors towards the clusters' means, octree merges similar colors bottom-up
+export type QuantizeMethod = 'median-cut' | 'k-means' | 'octree';
+
+// How "nearest" is measured when mapping to a palette: straight RGB distance, or the perceptual
+// CIEDE2000 difference, which is slower but matches what people see as the closest yarn
+export type ColorDistance = 'rgb' | 'ciede2000';
+
+export interface MapToPaletteOptions {
+  // Floyd–Steinberg error diffusion instead of plain nearest colors
+  dither?: boolean;
+  distance?: ColorDistance;
+}
+
+// Palettes are built from at most this many pixels, spread evenly over the image
+const MAX_SAMPLES = 32768;
+const K_MEANS_ITERATIONS = 10;
+const OCTREE_DEPTH = 8;
+
+// Distinct colors with their pixel counts
+interface Histogram {
+  // RGB triplets
+  colors: Uint8Array;
+  counts: number[];
+}
+
+const buildHistogram = (sources: PixelBuffer[]): Histogram => {
+  const totalPixels = sources.reduce((sum, { width, height }) => sum + width * height, 0);
+  const stride = Math.max(1, Math.floor(totalPixels / MAX_SAMPLES));
+  const lookup = new Map<number, number>();
+  const colors: number[] = [];
+  const counts: number[] = [];
+
+  for (const { width, height, data } of sources) {
+    for (let i = 0; i < width * height; i += stride) {
+      const offset = i * CHANNELS;
+      const key = (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2];
+      const index = lookup.get(key);
+
+      if (index === undefined) {
+        lookup.set(key, counts.length);
+        colors.push(data[offset], data[offset + 1], data[offset + 2]);
+        counts.push(1);
+      } else {
+        counts[index]++;
+      }
+    }
+  }
+
+  return { colors: Uint8Array.from(colors), counts };
+};
+
+// Weighted mean of a set of histogram entries
+const averageColor = ({ colors, counts }: Histogram, entries: number[]): number[] => {
+  const sum = [0, 0, 0];
+  let weight = 0;
+
+  for (const entry of entries) {
+    for (let c = 0; c < 3; c++) {
+      sum[c] += colors[entry * 3 + c] * counts[entry];
+    }
+    weight += counts[entry];
+  }
+
+  return sum.map((value) => Math.round(value / Math.max(weight, 1)));
+};
+
+const medianCut = (histogram: Histogram, colorCount: number): Uint8Array => {
+  const { colors, counts } = histogram;
+  const boxes: number[][] = [counts.map((_, i) => i)];
+
+  const channelRange = (box: number[], channel: number) => {
+    let min = 255;
+    let max = 0;
+    for (const entry of box) {
+      min = Math.min(min, colors[entry * 3 + channel]);
+      max = Math.max(max, colors[entry * 3 + channel]);
+    }
+    return max - min;
+  };
+
+  while (boxes.length < colorCount) {
+    // Split the box with the widest channel; boxes of a single color can't be split
+    let target = -1;
+    let targetChannel = 0;
+    let widest = 0;
+
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let channel = 0; channel < 3; channel++) {
+        const range = channelRange(box, channel);
+        if (range > widest) {
+          widest = range;
+          target = i;
+          targetChannel = channel;
+        }
+      }
+    });
+
+    if (target === -1) break;
+
+    // Cut at the weighted median, keeping at least one color on each side
+    const box = boxes[target].sort((a, b) => colors[a * 3 + targetChannel] - colors[b * 3 + targetChannel]);
+    const half = box.reduce((sum, entry) => sum + counts[entry], 0) / 2;
+    let cut = 1;
+    for (let seen = counts[box[0]]; cut < box.length - 1 && seen < half; cut++) {
+      seen += counts[box[cut]];
+    }
+
+    boxes.splice(target, 1, box.slice(0, cut), box.slice(cut));
+  }
+
+  return Uint8Array.from(boxes.flatMap((box) => averageColor(histogram, box)));
+};
+
+const squaredDistance = (palette: ArrayLike<number>, index: number, r: number, g: number, b: number): number => {
+  const dr = palette[index * 3] - r;
+  const dg = palette[index * 3 + 1] - g;
+  const db = palette[index * 3 + 2] - b;
+  return dr * dr + dg * dg + db * db;
+};
+
+// Index of the palette color closest to r, g, b
+export const findNearestColor = (palette: ArrayLike<number>, r: number, g: number, b: number): number => {
+  let nearest = 0;
+  let best = Infinity;
+
+  for (let i = 0; i < palette.length / 3; i++) {
+    const distance = squaredDistance(palette, i, r, g, b);
+    if (distance < best) {
+      best = distance;
+      nearest = i;
+    }
+  }
+
+  return nearest;
+};
+
+// Returns a function giving the index of the palette color nearest to r, g, b
+export const createColorMatcher = (
+  palette: Uint8Array,
+  distance: ColorDistance = 'rgb'
+): ((r: number, g: number, b: number) => number) => {
+  if (distance === 'rgb') {
+    return (r, g, b) => findNearestColor(palette, r, g, b);
+  }
+
+  const labs = Array.from({ length: getPaletteSize({ palette }) }, (_, i) =>
+    rgbToLab(palette[i * 3], palette[i * 3 + 1], palette[i * 3 + 2])
+  );
+
+  return (r, g, b) => {
+    const lab = rgbToLab(r, g, b);
+    let nearest = 0;
+    let best = Infinity;
+
+    labs.forEach((candidate, i) => {
+      const difference = ciede2000(lab, candidate);
+      if (difference < best) {
+        best = difference;
+        nearest = i;
+      }
+    });
+
+    return nearest;
+  };
+};
+
+const kMeans = (histogram: Histogram, colorCount: number): Uint8Array => {
+  const { colors, counts } = histogram;
+  // Median cut gives a deterministic starting point that is already close
+  const centers = Array.from(medianCut(histogram, colorCount));
+  const size = centers.length / 3;
+  const assignment = new Int32Array(counts.length).fill(-1);
+
+  for (let iteration = 0; iteration < K_MEANS_ITERATIONS; iteration++) {
+    let changed = false;
+    const sums = new Float64Array(size * 3);
+    const weights = new Float64Array(size);
+
+    for (let entry = 0; entry < counts.length; entry++) {
+      const r = colors[entry * 3];
+      const g = colors[entry * 3 + 1];
+      const b = colors[entry * 3 + 2];
+      const cluster = findNearestColor(centers, r, g, b);
+
+      if (assignment[entry] !== cluster) {
+        assignment[entry] = cluster;
+        changed = true;
+      }
+
+      sums[cluster * 3] += r * counts[entry];
+      sums[cluster * 3 + 1] += g * counts[entry];
+      sums[cluster * 3 + 2] += b * counts[entry];
+      weights[cluster] += counts[entry];
+    }
+
+    if (!changed) break;
+
+    // Empty clusters keep their previous center
+    for (let cluster = 0; cluster < size; cluster++) {
+      if (weights[cluster] === 0) continue;
+      for (let c = 0; c < 3; c++) {
+        centers[cluster * 3 + c] = Math.round(sums[cluster * 3 + c] / weights[cluster]);
+      }
+    }
+  }
+
+  return Uint8Array.from(centers);
+};
+
+interface OctreeNode {
+  children: (OctreeNode | null)[];
+  sum: [number, number, number];
+  count: number;
+  leaf: boolean;
+}
+
+const createOctreeNode = (leaf: boolean): OctreeNode => ({
+  children: new Array(8).fill(null),
+  sum: [0, 0, 0],
+  count: 0,
+  leaf,
+});
+
+// Squared distance between the mean colors of two leaves
+const leafDistance = (a: OctreeNode, b: OctreeNode): number =>
+  a.sum.reduce((sum, value, c) => sum + (value / a.count - b.sum[c] / b.count) ** 2, 0);
+
+const octree = ({ colors, counts }: Histogram, colorCount: number): Uint8Array => {
+  const root = createOctreeNode(false);
+  // Inner nodes by depth, so the deepest ones are merged first
+  const levels: OctreeNode[][] = Array.from({ length: OCTREE_DEPTH }, () => []);
+  levels[0].push(root);
+  let leafCount = 0;
+
+  for (let entry = 0; entry < counts.length; entry++) {
+    const rgb = [colors[entry * 3], colors[entry * 3 + 1], colors[entry * 3 + 2]];
+    let node = root;
+
+    for (let depth = 0; depth < OCTREE_DEPTH && !node.leaf; depth++) {
+      const bit = 7 - depth;
+      const child = (((rgb[0] >> bit) & 1) << 2) | (((rgb[1] >> bit) & 1) << 1) | ((rgb[2] >> bit) & 1);
+
+      let next = node.children[child];
+      if (!next) {
+        next = createOctreeNode(depth === OCTREE_DEPTH - 1);
+        node.children[child] = next;
+        if (next.leaf) {
+          leafCount++;
+        } else {
+          levels[depth + 1].push(next);
+        }
+      }
+      node = next;
+    }
+
+    for (let c = 0; c < 3; c++) {
+      node.sum[c] += rgb[c] * counts[entry];
+    }
+    node.count += counts[entry];
+  }
+
+  // Working up from the deepest inner nodes, merge leaves one at a time, least-used first, into
+  // their nearest sibling. Once every node of a level is down to one leaf, the level is folded
+  // into its parents and merging carries on a level higher.
+  for (let depth = OCTREE_DEPTH - 1; depth >= 0 && leafCount > colorCount; depth--) {
+    const leaves = levels[depth]
+      .flatMap((node) => node.children.flatMap((child, slot) => (child ? [{ node, child, slot }] : [])))
+      .sort((a, b) => a.child.count - b.child.count);
+
+    for (const { node, child, slot } of leaves) {
+      if (leafCount <= colorCount) break;
+
+      let nearest: OctreeNode | null = null;
+      for (const sibling of node.children) {
+        if (sibling && sibling !== child && (!nearest || leafDistance(child, sibling) < leafDistance(child, nearest))) {
+          nearest = sibling;
+        }
+      }
+      // The parent's last leaf goes up with it when the level is folded
+      if (!nearest) continue;
+
+      for (let c = 0; c < 3; c++) {
+        nearest.sum[c] += child.sum[c];
+      }
+      nearest.count += child.count;
+      node.children[slot] = null;
+      leafCount--;
+    }
+
+    if (leafCount <= colorCount) break;
+
+    // Every node here has a single leaf left, so folding it keeps the leaf count
+    for (const node of levels[depth]) {
+      for (const child of node.children) {
+        if (!child) continue;
+        for (let c = 0; c < 3; c++) {
+          node.sum[c] += child.sum[c];
+        }
+        node.count += child.count;
+      }
+      node.children.fill(null);
+      node.leaf = true;
+    }
+  }
+
+  const palette: number[] = [];
+  const collect = (node: OctreeNode) => {
+    if (node.leaf) {
+      if (node.count > 0) {
+        palette.push(...node.sum.map((value) => Math.round(value / node.count)));
+      }
+      return;
+    }
+    node.children.forEach((child) => child && collect(child));
+  };
+  collect(root);
+
+  return Uint8Array.from(palette);
+};
+
+// Chooses up to `colorCount` colors that represent the images. Images with no more colors than that
+// keep exactly their own colors.
+export const buildPalette = (
+  source: PixelBuffer | PixelBuffer[],
+  colorCount: number,
+  method: QuantizeMethod = 'median-cut'
+): Uint8Array => {
+  if (!Number.isInteger(colorCount) || colorCount < 1 || colorCount > MAX_PALETTE_COLORS) {
+    throw new Error(`Color count must be between 1 and ${MAX_PALETTE_COLORS}`);
+  }
+
+  const histogram = buildHistogram(Array.isArray(source) ? source : [source]);
+
+  if (histogram.counts.length <= colorCount) {
+    return histogram.colors;
+  }
+
+  switch (method) {
+    case 'k-means':
+      return kMeans(histogram, colorCount);
+    case 'octree':
+      return octree(histogram, colorCount);
+    default:
+      return medianCut(histogram, colorCount);
+  }
+};
+
+// Maps every pixel to its nearest palette color, optionally diffusing the error to its neighbors
+export const mapToPalette = (
+  { width, height, data }: PixelBuffer,
+  palette: Uint8Array,
+  { dither = false, distance = 'rgb' }: MapToPaletteOptions = {}
+): IndexedImage => {
+  const paletteSize = getPaletteSize({ palette });
+  if (paletteSize < 1 || paletteSize > MAX_PALETTE_COLORS) {
+    throw new Error(`The palette needs between 1 and ${MAX_PALETTE_COLORS} colors, not ${paletteSize}`);
+  }
+
+  const indices = new Uint8Array(width * height);
+  const findNearest = createColorMatcher(palette, distance);
+
+  if (!dither) {
+    const cache = new Map<number, number>();
+
+    for (let i = 0; i < width * height; i++) {
+      const offset = i * CHANNELS;
+      const key = (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2];
+      let index = cache.get(key);
+
+      if (index === undefined) {
+        index = findNearest(data[offset], data[offset + 1], data[offset + 2]);
+        cache.set(key, index);
+      }
+      indices[i] = index;
+    }
+
+    return { width, height, indices, palette };
+  }
+
+  // Errors carried into the current and next row, per channel
+  let current = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * CHANNELS;
+      const errorOffset = (x + 1) * 3;
+      const rgb = [0, 1, 2].map((c) => Math.min(255, Math.max(0, data[offset + c] + current[errorOffset + c])));
+      const index = findNearest(rgb[0], rgb[1], rgb[2]);
+      indices[y * width + x] = index;
+
+      for (let c = 0; c < 3; c++) {
+        const error = rgb[c] - palette[index * 3 + c];
+        current[errorOffset + 3 + c] += (error * 7) / 16;
+        next[errorOffset - 3 + c] += (error * 3) / 16;
+        next[errorOffset + c] += (error * 5) / 16;
+        next[errorOffset + 3 + c] += error / 16;
+      }
+    }
+
+    [current, next] = [next, current];
+    next.fill(0);
+  }
+
+  return { width, height, indices, palette };
+};
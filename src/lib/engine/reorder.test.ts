@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createPixelBuffer } from './buffer';
+import { invertPipeline, runProcessingJob, type PipelineStep } from './job';
+import { weaveReorder } from './reorder';
+import type { PixelBuffer } from './types';
+
+// Every pixel gets a distinct color so any misplaced pixel shows
+const gradient = (width: number, height: number): PixelBuffer => {
+  const buffer = createPixelBuffer(width, height);
+  for (let i = 0; i < width * height; i++) {
+    buffer.data.set([i & 0xff, i >> 8, (i * 7) & 0xff, 255], i * 4);
+  }
+  return buffer;
+};
+
+describe('weaveReorder', () => {
+  it('is undone by the inverse direction', () => {
+    const source = gradient(13, 9);
+    const sections = { warp: { size: 4, pattern: [3, 1, 4, 2] }, weft: { size: 3, pattern: [2, 3, 1] } };
+
+    const woven = weaveReorder(source, sections);
+    expect(woven.data).not.toEqual(source.data);
+    expect(weaveReorder(woven, sections, { direction: 'inverse' })).toEqual(source);
+  });
+
+  it('undoes variable-width sequences and a row offset', () => {
+    const source = gradient(17, 8);
+    const sections = { warp: [{ size: 3, pattern: [2, 3, 1] }, { size: 2, pattern: [2, 1] }] };
+    const rowOffset = { step: 1, repeat: 2 };
+
+    const woven = weaveReorder(source, sections, { rowOffset });
+    expect(weaveReorder(woven, sections, { rowOffset, direction: 'inverse' })).toEqual(source);
+  });
+});
+
+describe('invertPipeline', () => {
+  it('restores the source after a multi-step job with a block section', () => {
+    const source = gradient(12, 12);
+    const steps: PipelineStep[] = [
+      { warp: { size: 3, pattern: [3, 1, 2] }, block: { size: 2, pattern: [4, 3, 2, 1], cellSize: 2 } },
+      { weft: { size: 4, pattern: [2, 4, 1, 3] } },
+    ];
+
+    const woven = runProcessingJob(source, { steps }).at(-1);
+    const restored = runProcessingJob(woven, { steps: invertPipeline(steps) }).at(-1);
+    expect(restored).toEqual(source);
+  });
+});
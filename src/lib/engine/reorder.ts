@@ -0,0 +1,167 @@
+import { createPixelBuffer, getChannels } from './buffer';
+import {
+  buildInverseSliceMap,
+  buildSliceMap,
+  getRowOffset,
+  rotatePattern,
+  toSequence,
+  validatePattern,
+} from './permutation';
+import type { PixelBuffer, ReorderOptions, SectionPattern, SectionSequence } from './types';
+
+export interface SliceMaps {
+  // Target column -> source column; omitted keeps columns in place
+  columnMap?: Int32Array;
+  // Overrides columnMap row by row; every map it returns must be as long as columnMap
+  columnMapForRow?: (targetRow: number, sourceRow: number) => Int32Array;
+  // Target row -> source row; omitted keeps rows in place
+  rowMap?: Int32Array;
+}
+
+// Copies the source through column maps and a row map in one pass.
+// Column and row permutations commute, so applying both at once is the same as chaining them.
+// The output takes its size from the maps, which can be shorter or longer than the source.
+export const applySliceMaps = (
+  source: PixelBuffer,
+  { columnMap, columnMapForRow, rowMap }: SliceMaps,
+  options: ReorderOptions = {}
+): PixelBuffer => {
+  const { width, data } = source;
+  const channels = getChannels(source);
+  const outputWidth = columnMap ? columnMap.length : width;
+  const outputHeight = rowMap ? rowMap.length : source.height;
+  const result = createPixelBuffer(outputWidth, outputHeight, channels);
+  const target = result.data;
+  const rowLength = width * channels;
+
+  for (let y = 0; y < outputHeight; y++) {
+    const sourceRow = rowMap ? rowMap[y] : y;
+    const sourceRowStart = sourceRow * width;
+    const targetRowStart = y * outputWidth;
+
+    if (!columnMap) {
+      // Whole rows move together
+      const start = sourceRowStart * channels;
+      target.set(data.subarray(start, start + rowLength), targetRowStart * channels);
+    } else {
+      const rowColumnMap = columnMapForRow ? columnMapForRow(y, sourceRow) : columnMap;
+
+      for (let x = 0; x < outputWidth; x++) {
+        const targetIndex = (targetRowStart + x) * channels;
+        const sourceIndex = (sourceRowStart + rowColumnMap[x]) * channels;
+
+        for (let c = 0; c < channels; c++) {
+          target[targetIndex + c] = data[sourceIndex + c];
+        }
+      }
+    }
+
+    options.onProgress?.(y + 1, outputHeight);
+  }
+
+  return result;
+};
+
+const sliceMapFor = (length: number, sections: SectionSequence, options: ReorderOptions): Int32Array =>
+  options.direction === 'inverse'
+    ? buildInverseSliceMap(length, sections, options.remainder)
+    : buildSliceMap(length, sections, options.remainder);
+
+// Column maps for the warp, one per pattern rotation when a row offset is set
+export const warpSliceMaps = (
+  width: number,
+  sections: SectionSequence,
+  options: ReorderOptions
+): Pick<SliceMaps, 'columnMap' | 'columnMapForRow'> => {
+  const columnMap = sliceMapFor(width, sections, options);
+  const { rowOffset } = options;
+
+  if (!rowOffset || sections.every(section => rowOffset.step % section.size === 0)) {
+    return { columnMap };
+  }
+
+  // Mixed sizes can repeat only after many rows, so rotations are built as rows need them
+  const cache = new Map<string, Int32Array>();
+  const mapForOffset = (offset: number) => {
+    const key = sections.map(section => ((offset % section.size) + section.size) % section.size).join(',');
+    let map = cache.get(key);
+
+    if (!map) {
+      const rotated = sections.map(section => ({ size: section.size, pattern: rotatePattern(section.pattern, offset) }));
+      map = sliceMapFor(width, rotated, options);
+      cache.set(key, map);
+    }
+
+    return map;
+  };
+
+  // Woven rows are keyed by the row they came from, so undoing one looks up the row it goes back to
+  const columnMapForRow = options.direction === 'inverse'
+    ? (targetRow: number) => mapForOffset(getRowOffset(targetRow, rowOffset))
+    : (_targetRow: number, sourceRow: number) => mapForOffset(getRowOffset(sourceRow, rowOffset));
+
+  return { columnMap, columnMapForRow };
+};
+
+export const assertValidSections = (sections: SectionSequence) => {
+  for (const section of sections) {
+    const error = validatePattern(section.pattern, section.size);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+};
+
+// Reorders the columns inside each vertical slice of `section.size` pixels,
+// or the rows inside each horizontal band when the orientation is horizontal.
+// A sequence lays its sections out across consecutive slices.
+export const reorderPixels = (
+  source: PixelBuffer,
+  sections: SectionPattern | SectionSequence,
+  options: ReorderOptions = {}
+): PixelBuffer => {
+  const sequence = toSequence(sections);
+  if (sequence.length === 0) {
+    throw new Error('Select a section to process');
+  }
+  assertValidSections(sequence);
+
+  if (options.orientation === 'horizontal') {
+    return applySliceMaps(source, { rowMap: sliceMapFor(source.height, sequence, options) }, options);
+  }
+
+  return applySliceMaps(source, warpSliceMaps(source.width, sequence, options), options);
+};
+
+export interface WeaveSections {
+  // Permutes columns, like warp ends
+  warp?: SectionPattern | SectionSequence;
+  // Permutes rows, like weft picks
+  weft?: SectionPattern | SectionSequence;
+}
+
+// Applies a warp section to the columns and a weft section to the rows in a single pass
+export const weaveReorder = (
+  source: PixelBuffer,
+  { warp, weft }: WeaveSections,
+  options: Omit<ReorderOptions, 'orientation'> = {}
+): PixelBuffer => {
+  const warpSequence = warp ? toSequence(warp) : [];
+  const weftSequence = weft ? toSequence(weft) : [];
+
+  if (warpSequence.length === 0 && weftSequence.length === 0) {
+    throw new Error('Select a warp or weft section to process');
+  }
+
+  assertValidSections(warpSequence);
+  assertValidSections(weftSequence);
+
+  return applySliceMaps(
+    source,
+    {
+      ...(warpSequence.length > 0 && warpSliceMaps(source.width, warpSequence, options)),
+      rowMap: weftSequence.length > 0 ? sliceMapFor(source.height, weftSequence, options) : undefined,
+    },
+    options
+  );
+};
@@ -0,0 +1,117 @@
+import type { StructureParams, WeaveStructure } from '@/lib/supabase';
+import type { Drawdown } from './draft';
+import type { IndexedImage } from './types';
+
+// Largest repeat the generators make, in ends or picks
+export const MAX_STRUCTURE_SIZE = 64;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+const isCount = (value: number, min: number) => Number.isInteger(value) && value >= min && value <= MAX_STRUCTURE_SIZE;
+
+// Returns a user-facing error message, or null when the structure can be generated
+export const validateStructureParams = (params: StructureParams): string | null => {
+  switch (params.kind) {
+    case 'plain':
+      return null;
+    case 'twill':
+      if (!isCount(params.up, 1) || !isCount(params.down, 1)) {
+        return `Twill up and down must be between 1 and ${MAX_STRUCTURE_SIZE}`;
+      }
+      if (params.up + params.down < 3) {
+        return 'A twill needs at least 3 ends per repeat; 1/1 is plain weave';
+      }
+      if (params.up + params.down > MAX_STRUCTURE_SIZE) {
+        return `A twill repeat can be at most ${MAX_STRUCTURE_SIZE} ends`;
+      }
+      return null;
+    case 'satin':
+      if (!isCount(params.shafts, 5)) {
+        return `Satin needs between 5 and ${MAX_STRUCTURE_SIZE} shafts`;
+      }
+      if (!Number.isInteger(params.move) || params.move < 2 || params.move > params.shafts - 2) {
+        return `The move number must be between 2 and ${params.shafts - 2}; 1 and ${params.shafts - 1} make a twill`;
+      }
+      if (gcd(params.shafts, params.move) !== 1) {
+        return `Move ${params.move} shares a factor with ${params.shafts} shafts, so some ends would never interlace`;
+      }
+      return null;
+    case 'basket':
+      if (!isCount(params.ends, 1) || !isCount(params.picks, 1) || params.ends * 2 > MAX_STRUCTURE_SIZE || params.picks * 2 > MAX_STRUCTURE_SIZE) {
+        return `Basket groups must be between 1 and ${MAX_STRUCTURE_SIZE / 2} threads`;
+      }
+      return null;
+  }
+};
+
+const matrix = (width: number, height: number, raised: (x: number, y: number) => boolean): Drawdown => {
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = raised(x, y) ? 1 : 0;
+    }
+  }
+  return { width, height, data };
+};
+
+// One repeat of the structure, in image orientation (top pick first)
+export const generateStructure = (params: StructureParams): Drawdown => {
+  const error = validateStructureParams(params);
+  if (error) {
+    throw new Error(error);
+  }
+
+  switch (params.kind) {
+    case 'plain':
+      return matrix(2, 2, (x, y) => (x + y) % 2 === 0);
+    case 'twill': {
+      const { up, down, direction } = params;
+      const size = up + down;
+      // Going up a pick moves the floats one end right for Z, left for S
+      return matrix(size, size, (x, y) => (direction === 'z' ? x + y : x - y + size) % size < up);
+    }
+    case 'satin': {
+      const { shafts, move, face } = params;
+      // One interlacing per pick, stepping `move` ends each pick
+      return matrix(shafts, shafts, (x, y) => (x === (y * move) % shafts) === (face === 'weft'));
+    }
+    case 'basket': {
+      const { ends, picks } = params;
+      return matrix(ends * 2, picks * 2, (x, y) => (Math.floor(x / ends) + Math.floor(y / picks)) % 2 === 0);
+    }
+  }
+};
+
+export const structureFromPattern = ({ width, height, pattern }: Pick<WeaveStructure, 'width' | 'height' | 'pattern'>): Drawdown => ({
+  width,
+  height,
+  data: Uint8Array.from(pattern, (value) => (value ? 1 : 0)),
+});
+
+export const structureToPattern = ({ data }: Drawdown): number[] => Array.from(data);
+
+const mod = (value: number, divisor: number): number => ((value % divisor) + divisor) % divisor;
+
+// Fills every pixel with the structure chosen for its palette color. All structures are tiled
+// from the same origin, the image's top-left corner shifted by `origin`, so they stay in step
+// across region borders. Colors without a structure leave the weft showing.
+export const fillStructures = (
+  { width, height, indices }: IndexedImage,
+  structures: (Drawdown | null | undefined)[],
+  origin: { x: number; y: number } = { x: 0, y: 0 }
+): Drawdown => {
+  const data = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const structure = structures[indices[y * width + x]];
+      if (!structure) continue;
+
+      const sx = mod(x - origin.x, structure.width);
+      const sy = mod(y - origin.y, structure.height);
+      data[y * width + x] = structure.data[sy * structure.width + sx];
+    }
+  }
+
+  return { width, height, data };
+};
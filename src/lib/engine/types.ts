@@ -0,0 +1,64 @@
+import type { PixelSection, SliceOrientation } from '@/lib/supabase';
+
+export type { SliceOrientation };
+
+// Plain pixel buffer, structurally compatible with the DOM ImageData. Usually RGBA, but the
+// engine only moves whole pixels, so a plane of one palette index per pixel works the same way.
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// An image kept as palette indices plus the color table they point into
+export interface IndexedImage {
+  width: number;
+  height: number;
+  // One palette index per pixel, row-major from the top
+  indices: Uint8Array;
+  // RGB triplets
+  palette: Uint8Array;
+}
+
+// The parts of a section the engine needs; callers can pass a full PixelSection
+export type SectionPattern = Pick<PixelSection, 'size' | 'pattern'>;
+
+// A 2D section: `pattern` lists, for each target cell of a size × size tile in row-major
+// order, the 1-based source cell it is copied from. Cells are cellSize pixels square, so
+// cellSize 1 permutes pixels inside each block and larger cells move whole sub-blocks.
+export interface BlockPattern extends SectionPattern {
+  cellSize: number;
+}
+
+// Sections laid out cyclically: slice k uses sequence[k mod n]. Sizes may differ,
+// in which case slices have variable widths.
+export type SectionSequence = SectionPattern[];
+
+// Which threads a section is applied to: warp permutes columns, weft permutes rows
+export type WeaveAxis = 'warp' | 'weft';
+
+// What happens to the `length % size` columns (or rows) after the last complete slice:
+// keep leaves them untouched, crop drops them, pad-edge / pad-mirror extend the image to a
+// full slice with repeated or reflected pixels, truncate applies only the pattern indices that fit
+export type RemainderStrategy = 'keep' | 'crop' | 'pad-edge' | 'pad-mirror' | 'truncate';
+
+// forward weaves the source; inverse undoes a previous forward pass ("un-weave")
+export type ProcessingDirection = 'forward' | 'inverse';
+
+// Twill-style diagonal: row y uses the pattern rotated by (floor(y / repeat) * step) mod size
+export interface RowOffset {
+  step: number;
+  repeat: number;
+}
+
+export type ProgressCallback = (completed: number, total: number) => void;
+
+export interface ReorderOptions {
+  // vertical permutes columns inside vertical slices, horizontal permutes rows inside horizontal bands
+  orientation?: SliceOrientation;
+  remainder?: RemainderStrategy;
+  direction?: ProcessingDirection;
+  // Only applies to vertical slices (the warp)
+  rowOffset?: RowOffset;
+  onProgress?: ProgressCallback;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createPixelBuffer } from '@/lib/engine';
+import { decodeBmp, encodeBmp } from './bmp';
+
+const checkerboard = (width: number, height: number, colors: number[][]) => {
+  const buffer = createPixelBuffer(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      buffer.data.set([...colors[(x + y * 2) % colors.length], 255], (y * width + x) * 4);
+    }
+  }
+  return buffer;
+};
+
+// A 3×2 8-bit OS/2 BMP: 12-byte BITMAPCOREHEADER, a short table of 3-byte entries, and rows
+// padded to 4 bytes
+const coreBmp = (height: number) => {
+  const table = [0, 0, 255, 0, 255, 0, 255, 0, 0]; // BGR: red, green, blue
+  const rows = [2, 1, 0, 0, 0, 1, 2, 0];
+  const pixelOffset = 14 + 12 + table.length;
+  const bytes = new Uint8Array(pixelOffset + rows.length);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set([0x42, 0x4d]);
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, pixelOffset, true);
+  view.setUint32(14, 12, true);
+  view.setUint16(18, 3, true);
+  view.setInt16(20, height, true);
+  view.setUint16(22, 1, true);
+  view.setUint16(24, 8, true);
+  bytes.set(table, 26);
+  bytes.set(rows, pixelOffset);
+  return bytes;
+};
+
+describe('BMP', () => {
+  it.each([24, 32] as const)('round-trips %i-bit pixels', (bitDepth) => {
+    const source = checkerboard(5, 3, [[10, 20, 30], [200, 100, 50], [0, 255, 128]]);
+    const decoded = decodeBmp(encodeBmp(source, { bitDepth }));
+
+    expect(decoded.image).toEqual(source);
+    expect(decoded.bitDepth).toBe(bitDepth);
+  });
+
+  it.each([1, 4, 8] as const)('round-trips %i-bit palette indices, top-down too', (bitDepth) => {
+    const source = checkerboard(7, 4, [[0, 0, 0], [255, 255, 255]]);
+
+    for (const topDown of [false, true]) {
+      const decoded = decodeBmp(encodeBmp(source, { bitDepth, topDown }));
+      expect(decoded.image).toEqual(source);
+      expect(decoded.topDown).toBe(topDown);
+      expect(decoded.palette).toEqual(Uint8Array.of(0, 0, 0, 255, 255, 255));
+    }
+  });
+
+  it('keeps the resolution', () => {
+    const resolution = { x: 1200, y: 2000 };
+    expect(decodeBmp(encodeBmp(checkerboard(2, 2, [[1, 2, 3]]), { resolution })).resolution).toEqual(resolution);
+  });
+
+  it('reads OS/2 core headers, bottom-up and top-down', () => {
+    const bottomUp = decodeBmp(coreBmp(2));
+    expect(bottomUp.image.width).toBe(3);
+    expect(bottomUp.image.height).toBe(2);
+    expect(bottomUp.palette).toEqual(Uint8Array.of(255, 0, 0, 0, 255, 0, 0, 0, 255));
+    expect(bottomUp.indices).toEqual(Uint8Array.of(0, 1, 2, 2, 1, 0));
+
+    const topDown = decodeBmp(coreBmp(-2));
+    expect(topDown.topDown).toBe(true);
+    expect(topDown.indices).toEqual(Uint8Array.of(2, 1, 0, 0, 1, 2));
+  });
+});
@@ -0,0 +1,419 @@
+import {
+  CHANNELS,
+  createPixelBuffer,
+  expandIndexed,
+  getPaletteSize,
+  indexPixels,
+  type IndexedImage,
+  type PixelBuffer,
+} from '@/lib/engine';
+import { DEFAULT_RESOLUTION, isValidResolution, type Resolution } from './resolution';
+
+export type BmpBitDepth = 1 | 4 | 8 | 24 | 32;
+
+export interface BmpEncodeOptions {
+  bitDepth?: BmpBitDepth;
+  // Rows are stored bottom-up by default, which every reader supports
+  topDown?: boolean;
+  // Written to biXPelsPerMeter / biYPelsPerMeter; 72 DPI when omitted
+  resolution?: Resolution;
+}
+
+const FILE_HEADER_SIZE = 14;
+const INFO_HEADER_SIZE = 40;
+
+// Compression types
+const BI_RGB = 0;
+const BI_RLE8 = 1;
+const BI_RLE4 = 2;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+// Rows are padded to a multiple of 4 bytes
+export const getBmpRowSize = (width: number, bitDepth: number): number => Math.ceil((width * bitDepth) / 32) * 4;
+
+// Black and white by luminance, for images with more than two colors
+const thresholdToMonochrome = ({ width, height, data }: PixelBuffer): IndexedImage => {
+  const indices = new Uint8Array(width * height);
+
+  for (let i = 0; i < indices.length; i++) {
+    const offset = i * CHANNELS;
+    const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+    indices[i] = luminance >= 128 ? 1 : 0;
+  }
+
+  return { width, height, indices, palette: Uint8Array.of(0, 0, 0, 255, 255, 255) };
+};
+
+// Writes a Windows BMP (BITMAPINFOHEADER). 24- and 32-bit files store BGR(A) pixels. An indexed
+// image keeps its indices and color table unchanged; RGBA pixels are indexed by their own colors,
+// at most 16 or 256 of them for 4- and 8-bit files, and 1-bit files threshold to black and white.
+export const encodeBmp = (
+  source: PixelBuffer | IndexedImage,
+  { bitDepth = 24, topDown = false, resolution = DEFAULT_RESOLUTION }: BmpEncodeOptions = {}
+): Uint8Array => {
+  const { width, height } = source;
+
+  if (width < 1 || height < 1) {
+    throw new Error('Cannot save an empty image as BMP');
+  }
+
+  const image = 'indices' in source ? expandIndexed(source) : source;
+  const { data } = image;
+  let indexed: IndexedImage | null = null;
+
+  if (bitDepth <= 8) {
+    const maxColors = 1 << bitDepth;
+
+    if ('indices' in source) {
+      if (getPaletteSize(source) > maxColors) {
+        throw new Error(`The palette has ${getPaletteSize(source)} colors, more than a ${bitDepth}-bit BMP can hold`);
+      }
+      indexed = source;
+    } else {
+      indexed = indexPixels(image, maxColors) ?? (bitDepth === 1 ? thresholdToMonochrome(image) : null);
+    }
+
+    if (!indexed) {
+      throw new Error(`The image has more than ${maxColors} colors; save it as 24-bit BMP or reduce its colors first`);
+    }
+  }
+
+  const paletteSize = indexed ? getPaletteSize(indexed) : 0;
+  const rowSize = getBmpRowSize(width, bitDepth);
+  const pixelOffset = FILE_HEADER_SIZE + INFO_HEADER_SIZE + paletteSize * 4;
+  const imageSize = rowSize * height;
+  const bytes = new Uint8Array(pixelOffset + imageSize);
+  const view = new DataView(bytes.buffer);
+
+  // BITMAPFILEHEADER
+  bytes[0] = 0x42; // B
+  bytes[1] = 0x4d; // M
+  view.setUint32(2, bytes.length, true);
+  view.setUint32(10, pixelOffset, true);
+
+  // BITMAPINFOHEADER; a negative height marks top-down rows
+  view.setUint32(14, INFO_HEADER_SIZE, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, topDown ? -height : height, true);
+  view.setUint16(26, 1, true); // planes
+  view.setUint16(28, bitDepth, true);
+  view.setUint32(30, BI_RGB, true);
+  view.setUint32(34, imageSize, true);
+  view.setInt32(38, Math.round(resolution.x), true);
+  view.setInt32(42, Math.round(resolution.y), true);
+  view.setUint32(46, paletteSize, true);
+  view.setUint32(50, 0, true); // all colors important
+
+  // Color table, stored as BGR0
+  if (indexed) {
+    for (let i = 0; i < paletteSize; i++) {
+      const offset = FILE_HEADER_SIZE + INFO_HEADER_SIZE + i * 4;
+      bytes[offset] = indexed.palette[i * 3 + 2];
+      bytes[offset + 1] = indexed.palette[i * 3 + 1];
+      bytes[offset + 2] = indexed.palette[i * 3];
+    }
+  }
+
+  const indices = indexed ? indexed.indices : new Uint8Array(0);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = pixelOffset + (topDown ? y : height - 1 - y) * rowSize;
+
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const source = pixel * CHANNELS;
+
+      switch (bitDepth) {
+        case 32:
+          bytes[rowStart + x * 4] = data[source + 2];
+          bytes[rowStart + x * 4 + 1] = data[source + 1];
+          bytes[rowStart + x * 4 + 2] = data[source];
+          bytes[rowStart + x * 4 + 3] = data[source + 3];
+          break;
+        case 24:
+          bytes[rowStart + x * 3] = data[source + 2];
+          bytes[rowStart + x * 3 + 1] = data[source + 1];
+          bytes[rowStart + x * 3 + 2] = data[source];
+          break;
+        case 8:
+          bytes[rowStart + x] = indices[pixel];
+          break;
+        default: {
+          // Packed 1- or 4-bit indices; the most significant bits hold the leftmost pixel
+          const bit = x * bitDepth;
+          bytes[rowStart + (bit >> 3)] |= indices[pixel] << (8 - bitDepth - (bit & 7));
+        }
+      }
+    }
+  }
+
+  return bytes;
+};
+
+export interface DecodedBmp {
+  image: PixelBuffer;
+  // Bits per pixel as stored in the file
+  bitDepth: number;
+  topDown: boolean;
+  // From biXPelsPerMeter / biYPelsPerMeter, when the file sets them
+  resolution?: Resolution;
+  // RGB triplets of the color table, for 1/4/8-bit files
+  palette?: Uint8Array;
+  // Palette index of every pixel, row-major from the top, for 1/4/8-bit files
+  indices?: Uint8Array;
+}
+
+interface ChannelMask {
+  mask: number;
+  shift: number;
+  max: number;
+}
+
+const toChannelMask = (mask: number): ChannelMask => {
+  if (mask === 0) return { mask, shift: 0, max: 0 };
+
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+
+  return { mask, shift, max: mask >>> shift };
+};
+
+const readMasked = (value: number, { mask, shift, max }: ChannelMask, fallback: number): number =>
+  max === 0 ? fallback : Math.round((((value & mask) >>> shift) * 255) / max);
+
+const isBmp = (bytes: Uint8Array) => bytes.length >= 26 && bytes[0] === 0x42 && bytes[1] === 0x4d;
+
+// Expands run-length encoded indices (RLE8, or RLE4 with two nibbles per byte) into one index per pixel,
+// stored bottom-up like the file. Pixels skipped by delta codes keep index 0.
+const decodeRle = (bytes: Uint8Array, offset: number, width: number, height: number, nibbles: boolean): Uint8Array => {
+  const indices = new Uint8Array(width * height);
+  let x = 0;
+  let y = 0;
+  let i = offset;
+
+  const put = (index: number) => {
+    if (x < width && y < height) {
+      indices[y * width + x] = index;
+    }
+    x++;
+  };
+
+  while (i + 1 < bytes.length && y < height) {
+    const count = bytes[i];
+    const value = bytes[i + 1];
+    i += 2;
+
+    if (count > 0) {
+      // Encoded run
+      for (let n = 0; n < count; n++) {
+        put(nibbles ? (n % 2 === 0 ? value >> 4 : value & 0x0f) : value);
+      }
+    } else if (value === 0) {
+      // End of line
+      x = 0;
+      y++;
+    } else if (value === 1) {
+      // End of bitmap
+      break;
+    } else if (value === 2) {
+      // Delta
+      if (i + 1 >= bytes.length) break;
+      x += bytes[i];
+      y += bytes[i + 1];
+      i += 2;
+    } else {
+      // Absolute run of `value` pixels, padded to a 16-bit boundary
+      const length = nibbles ? Math.ceil(value / 2) : value;
+      if (i + length > bytes.length) {
+        throw new Error('BMP file is truncated');
+      }
+
+      for (let n = 0; n < value; n++) {
+        put(nibbles ? (n % 2 === 0 ? bytes[i + (n >> 1)] >> 4 : bytes[i + (n >> 1)] & 0x0f) : bytes[i + n]);
+      }
+      i += length + (length % 2);
+    }
+  }
+
+  return indices;
+};
+
+// Reads a Windows or OS/2 BMP: 1/4/8-bit indexed (uncompressed, RLE4 or RLE8), 16/32-bit with
+// default or BITFIELDS masks, and 24-bit. Indexed files keep their color table and pixel indices.
+export const decodeBmp = (input: ArrayBuffer | Uint8Array): DecodedBmp => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+
+  if (!isBmp(bytes)) {
+    throw new Error('Not a BMP file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const core = headerSize === 12;
+
+  if (bytes.length < 14 + (core ? 12 : 40)) {
+    throw new Error('BMP file is truncated');
+  }
+
+  const width = core ? view.getUint16(18, true) : view.getInt32(18, true);
+  const rawHeight = core ? view.getInt16(20, true) : view.getInt32(22, true);
+  const bitDepth = view.getUint16(core ? 24 : 28, true);
+  const compression = core ? BI_RGB : view.getUint32(30, true);
+  const colorsUsed = core ? 0 : view.getUint32(46, true);
+  const resolution = core ? undefined : { x: view.getInt32(38, true), y: view.getInt32(42, true) };
+  const topDown = rawHeight < 0;
+  const height = Math.abs(rawHeight);
+
+  if (width < 1 || height < 1) {
+    throw new Error('BMP has no pixels');
+  }
+
+  if (![1, 4, 8, 16, 24, 32].includes(bitDepth)) {
+    throw new Error(`Unsupported BMP bit depth: ${bitDepth}`);
+  }
+
+  const rle = compression === BI_RLE8 || compression === BI_RLE4;
+  if (![BI_RGB, BI_BITFIELDS, BI_ALPHABITFIELDS].includes(compression) && !rle) {
+    throw new Error(`Unsupported BMP compression: ${compression}`);
+  }
+
+  if ((compression === BI_RLE8 && bitDepth !== 8) || (compression === BI_RLE4 && bitDepth !== 4)) {
+    throw new Error(`RLE compression doesn't match the ${bitDepth}-bit depth`);
+  }
+
+  // Channel masks: in the V2+ header, or right after a 40-byte header
+  let masks: [ChannelMask, ChannelMask, ChannelMask, ChannelMask] | null = null;
+  let tableOffset = 14 + headerSize;
+
+  if (compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS) {
+    const maskOffset = headerSize >= 52 ? 54 : tableOffset;
+    const hasAlpha = headerSize >= 56 || compression === BI_ALPHABITFIELDS;
+    masks = [
+      toChannelMask(view.getUint32(maskOffset, true)),
+      toChannelMask(view.getUint32(maskOffset + 4, true)),
+      toChannelMask(view.getUint32(maskOffset + 8, true)),
+      toChannelMask(hasAlpha ? view.getUint32(maskOffset + 12, true) : 0),
+    ];
+
+    if (headerSize === 40) {
+      tableOffset += compression === BI_ALPHABITFIELDS ? 16 : 12;
+    }
+  } else if (bitDepth === 16) {
+    masks = [toChannelMask(0x7c00), toChannelMask(0x03e0), toChannelMask(0x001f), toChannelMask(0)];
+  }
+
+  let palette: Uint8Array | undefined;
+  if (bitDepth <= 8) {
+    const entrySize = core ? 3 : 4;
+    // Core headers have no color count; some writers store a short table, which then ends where
+    // the pixels start
+    const tableEntries = core && pixelOffset > tableOffset ? Math.floor((pixelOffset - tableOffset) / entrySize) : 0;
+    const count = Math.min(colorsUsed || tableEntries || 1 << bitDepth, 1 << bitDepth);
+
+    if (tableOffset + count * entrySize > bytes.length) {
+      throw new Error('BMP file is truncated');
+    }
+
+    palette = new Uint8Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const entry = tableOffset + i * entrySize;
+      palette[i * 3] = bytes[entry + 2];
+      palette[i * 3 + 1] = bytes[entry + 1];
+      palette[i * 3 + 2] = bytes[entry];
+    }
+  }
+
+  const rowSize = getBmpRowSize(width, bitDepth);
+  if (!rle && pixelOffset + rowSize * height > bytes.length) {
+    throw new Error('BMP file is truncated');
+  }
+
+  const image = createPixelBuffer(width, height);
+  const target = image.data;
+  let indices: Uint8Array | undefined;
+
+  if (palette) {
+    // Indices are read in file order and flipped into top-down order below
+    const fileIndices = rle
+      ? decodeRle(bytes, pixelOffset, width, height, compression === BI_RLE4)
+      : new Uint8Array(width * height);
+
+    if (!rle) {
+      for (let row = 0; row < height; row++) {
+        const rowStart = pixelOffset + row * rowSize;
+
+        for (let x = 0; x < width; x++) {
+          const bit = x * bitDepth;
+          const byte = bytes[rowStart + (bit >> 3)];
+          // Most significant bits hold the leftmost pixel
+          fileIndices[row * width + x] = (byte >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+        }
+      }
+    }
+
+    indices = new Uint8Array(width * height);
+    const colorCount = palette.length / 3;
+
+    for (let y = 0; y < height; y++) {
+      // RLE bitmaps are always stored bottom-up
+      const fileRow = topDown && !rle ? y : height - 1 - y;
+      indices.set(fileIndices.subarray(fileRow * width, (fileRow + 1) * width), y * width);
+    }
+
+    for (let i = 0; i < width * height; i++) {
+      // Out-of-range indices fall back to the first color, in the indices as well as the pixels
+      if (indices[i] >= colorCount) {
+        indices[i] = 0;
+      }
+      const index = indices[i];
+      target[i * CHANNELS] = palette[index * 3];
+      target[i * CHANNELS + 1] = palette[index * 3 + 1];
+      target[i * CHANNELS + 2] = palette[index * 3 + 2];
+      target[i * CHANNELS + 3] = 255;
+    }
+  } else {
+    let anyAlpha = false;
+
+    for (let y = 0; y < height; y++) {
+      const rowStart = pixelOffset + (topDown ? y : height - 1 - y) * rowSize;
+
+      for (let x = 0; x < width; x++) {
+        const targetIndex = (y * width + x) * CHANNELS;
+
+        if (masks) {
+          const value = bitDepth === 16 ? view.getUint16(rowStart + x * 2, true) : view.getUint32(rowStart + x * 4, true);
+          target[targetIndex] = readMasked(value, masks[0], 0);
+          target[targetIndex + 1] = readMasked(value, masks[1], 0);
+          target[targetIndex + 2] = readMasked(value, masks[2], 0);
+          target[targetIndex + 3] = readMasked(value, masks[3], 255);
+          anyAlpha ||= masks[3].max === 0 || target[targetIndex + 3] !== 0;
+        } else {
+          const source = rowStart + x * (bitDepth / 8);
+          target[targetIndex] = bytes[source + 2];
+          target[targetIndex + 1] = bytes[source + 1];
+          target[targetIndex + 2] = bytes[source];
+          target[targetIndex + 3] = bitDepth === 32 ? bytes[source + 3] : 255;
+          anyAlpha ||= bitDepth === 32 && bytes[source + 3] !== 0;
+        }
+      }
+    }
+
+    // Plain 32-bit files usually leave the fourth byte at zero rather than storing alpha
+    if (!anyAlpha) {
+      for (let i = 3; i < target.length; i += CHANNELS) {
+        target[i] = 255;
+      }
+    }
+  }
+
+  return {
+    image,
+    bitDepth,
+    topDown,
+    resolution: isValidResolution(resolution) ? resolution : undefined,
+    palette,
+    indices,
+  };
+};
@@ -0,0 +1,58 @@
+import { fromPixelsPerMeter, isValidResolution, toPixelsPerMeter, type Resolution, type ResolutionUnit } from './resolution';
+
+const JFIF_IDENTIFIER = [0x4a, 0x46, 0x49, 0x46, 0x00]; // "JFIF\0"
+const UNITS_DPI = 1;
+const UNITS_PER_CM = 2;
+
+const isJpeg = (bytes: Uint8Array) => bytes.length > 4 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+// Offset of the JFIF APP0 segment's marker, which has to follow the start-of-image marker
+const findJfif = (bytes: Uint8Array): number | null =>
+  isJpeg(bytes) &&
+  bytes[2] === 0xff &&
+  bytes[3] === 0xe0 &&
+  JFIF_IDENTIFIER.every((byte, i) => bytes[6 + i] === byte)
+    ? 2
+    : null;
+
+// Density from the JFIF header, when it is given in dots per inch or per centimeter
+export const readJpegResolution = (bytes: Uint8Array): Resolution | undefined => {
+  const jfif = findJfif(bytes);
+  if (jfif === null || bytes.length < jfif + 18) return undefined;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const units = bytes[jfif + 11];
+  const x = view.getUint16(jfif + 12);
+  const y = view.getUint16(jfif + 14);
+  const unit = units === UNITS_DPI ? 'dpi' : units === UNITS_PER_CM ? 'per-cm' : null;
+  if (!unit) return undefined;
+
+  const resolution = { x: toPixelsPerMeter(x, unit), y: toPixelsPerMeter(y, unit) };
+  return isValidResolution(resolution) ? resolution : undefined;
+};
+
+// Copy of a JPEG whose JFIF header carries the resolution in DPI or dots per centimeter, adding
+// the header if missing
+export const setJpegResolution = (bytes: Uint8Array, resolution: Resolution, unit: ResolutionUnit = 'dpi'): Uint8Array => {
+  if (!isJpeg(bytes)) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const jfif = findJfif(bytes);
+  const result = jfif === null ? new Uint8Array(bytes.length + 18) : Uint8Array.from(bytes);
+  const segment = 2;
+
+  if (jfif === null) {
+    // SOI, then a fresh 16-byte APP0 segment (version 1.01, no thumbnail), then the rest
+    result.set(bytes.subarray(0, 2));
+    result.set([0xff, 0xe0, 0x00, 0x10, ...JFIF_IDENTIFIER, 0x01, 0x01], segment);
+    result.set(bytes.subarray(2), segment + 18);
+  }
+
+  const view = new DataView(result.buffer);
+  result[segment + 11] = unit === 'dpi' ? UNITS_DPI : UNITS_PER_CM;
+  view.setUint16(segment + 12, Math.min(0xffff, Math.round(fromPixelsPerMeter(resolution.x, unit))));
+  view.setUint16(segment + 14, Math.min(0xffff, Math.round(fromPixelsPerMeter(resolution.y, unit))));
+
+  return result;
+};
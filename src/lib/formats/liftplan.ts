@@ -0,0 +1,33 @@
+// Liftplan (pegplan) exports for dobby looms. `liftplan` lists the raised shafts for each pick
+// in weaving order, pick 1 first, as produced by toWifDraft.
+
+// 1 for every raised shaft of the pick, 0 for the rest
+const pegRow = (lifted: number[], shafts: number, pick: number): number[] => {
+  const pegs = new Array<number>(shafts).fill(0);
+  for (const shaft of lifted) {
+    if (shaft < 1 || shaft > shafts) {
+      throw new Error(`Pick ${pick} lifts shaft ${shaft}, but the loom has ${shafts} shafts`);
+    }
+    pegs[shaft - 1] = 1;
+  }
+  return pegs;
+};
+
+// One row per pick with a 0/1 column for every shaft of the loom
+export const encodeLiftplanCsv = (liftplan: number[][], shafts: number): string => {
+  const header = ['pick', ...Array.from({ length: shafts }, (_, s) => `shaft ${s + 1}`)].join(',');
+  const rows = liftplan.map((lifted, p) => [p + 1, ...pegRow(lifted, shafts, p + 1)].join(','));
+
+  return [header, ...rows].join('\n') + '\n';
+};
+
+// One line per pick: the pick number, a peg row ("x" raised, "." lowered) and the raised shafts
+export const encodeLiftplanText = (liftplan: number[][], shafts: number): string => {
+  const width = String(liftplan.length).length;
+  const lines = liftplan.map((lifted, p) => {
+    const pegs = pegRow(lifted, shafts, p + 1).map((peg) => (peg ? 'x' : '.')).join('');
+    return `${String(p + 1).padStart(width)}  ${pegs}  ${lifted.join(' ')}`.trimEnd();
+  });
+
+  return [`Liftplan: ${liftplan.length} picks, ${shafts} shafts`, ...lines].join('\n') + '\n';
+};
@@ -0,0 +1,255 @@
+import { labToRgb } from '@/lib/engine';
+import type { YarnColor } from '@/lib/supabase';
+
+export interface ImportedPalette {
+  // From the file when it names the palette, otherwise from the file name
+  name: string;
+  colors: YarnColor[];
+}
+
+const toHex = (r: number, g: number, b: number): string =>
+  `#${[r, g, b].map((value) => Math.min(255, Math.max(0, Math.round(value))).toString(16).padStart(2, '0')).join('')}`;
+
+const baseName = (fileName: string) => fileName.replace(/\.[^/.]+$/, '');
+
+// GIMP palette: a "GIMP Palette" header, optional Name/Columns lines, # comments and one
+// "R G B name" line per color
+export const parseGpl = (text: string, fileName = 'Palette'): ImportedPalette => {
+  const lines = text.split(/\r?\n/);
+
+  if (lines[0]?.trim() !== 'GIMP Palette') {
+    throw new Error('Not a GIMP palette: the first line must be "GIMP Palette"');
+  }
+
+  let name = baseName(fileName);
+  const colors: YarnColor[] = [];
+
+  lines.slice(1).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('Columns:')) return;
+
+    if (trimmed.startsWith('Name:')) {
+      name = trimmed.slice(5).trim() || name;
+      return;
+    }
+
+    const match = /^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(trimmed);
+    if (!match) {
+      throw new Error(`Line ${i + 2}: expected "R G B name", got "${trimmed}"`);
+    }
+
+    const [r, g, b] = match.slice(1, 4).map(Number);
+    if ([r, g, b].some((value) => value > 255)) {
+      throw new Error(`Line ${i + 2}: color values must be between 0 and 255`);
+    }
+
+    const hex = toHex(r, g, b);
+    colors.push({ name: match[4].trim() || hex, code: '', hex });
+  });
+
+  return { name, colors };
+};
+
+const ASE_GROUP_START = 0xc001;
+const ASE_COLOR = 0x0001;
+
+// Adobe Swatch Exchange: big-endian blocks of named RGB, CMYK, LAB or gray swatches. Groups are
+// flattened; CMYK is converted without a color profile.
+export const parseAse = (input: ArrayBuffer | Uint8Array, fileName = 'Palette'): ImportedPalette => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 4)) !== 'ASEF') {
+    throw new Error('Not an Adobe Swatch Exchange file');
+  }
+
+  const blockCount = view.getUint32(8);
+  const colors: YarnColor[] = [];
+  let name = baseName(fileName);
+  let offset = 12;
+
+  for (let block = 0; block < blockCount; block++) {
+    if (offset + 6 > bytes.length) {
+      throw new Error('ASE file is truncated');
+    }
+
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    offset = start + length;
+
+    if (offset > bytes.length) {
+      throw new Error('ASE file is truncated');
+    }
+
+    if (type !== ASE_COLOR && type !== ASE_GROUP_START) continue;
+
+    // UTF-16 name, counted in code units including the terminating zero
+    const nameLength = view.getUint16(start);
+    const blockName = String.fromCharCode(
+      ...Array.from({ length: Math.max(0, nameLength - 1) }, (_, i) => view.getUint16(start + 2 + i * 2))
+    );
+
+    if (type === ASE_GROUP_START) {
+      // A file holding a single group is usually named after it
+      if (colors.length === 0 && blockName) name = blockName;
+      continue;
+    }
+
+    const modelOffset = start + 2 + nameLength * 2;
+    const model = String.fromCharCode(...bytes.subarray(modelOffset, modelOffset + 4)).trim();
+    const value = (i: number) => view.getFloat32(modelOffset + 4 + i * 4);
+
+    let hex: string;
+    switch (model) {
+      case 'RGB':
+        hex = toHex(value(0) * 255, value(1) * 255, value(2) * 255);
+        break;
+      case 'CMYK': {
+        const black = 1 - value(3);
+        hex = toHex(255 * (1 - value(0)) * black, 255 * (1 - value(1)) * black, 255 * (1 - value(2)) * black);
+        break;
+      }
+      case 'LAB':
+        hex = toHex(...labToRgb([value(0) * 100, value(1), value(2)]));
+        break;
+      case 'Gray':
+        hex = toHex(value(0) * 255, value(0) * 255, value(0) * 255);
+        break;
+      default:
+        throw new Error(`Swatch "${blockName}" uses the unsupported color model "${model}"`);
+    }
+
+    colors.push({ name: blockName || hex, code: '', hex });
+  }
+
+  return { name, colors };
+};
+
+// Splits one CSV line, honoring double-quoted fields
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+
+  return fields;
+};
+
+const HEX_PATTERN = /^#?[0-9a-f]{6}$/i;
+
+// Header names recognized for each column, lowercase
+const CSV_COLUMNS = {
+  name: ['name', 'color name', 'colour name', 'yarn', 'description'],
+  code: ['code', 'yarn code', 'shade', 'id', 'number', 'article'],
+  hex: ['hex', 'color', 'colour', 'rgb hex'],
+  r: ['r', 'red'],
+  g: ['g', 'green'],
+  b: ['b', 'blue'],
+};
+
+// Spreadsheet export with one yarn per row. A header row picks the columns (name, code, and
+// either hex or r/g/b); without one, each row needs a hex color and the other fields are
+// read as name, then code. Commas, semicolons and tabs all work as separators.
+export const parseCsvPalette = (text: string, fileName = 'Palette'): ImportedPalette => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const delimiter = ['\t', ';', ','].find((candidate) => lines[0].includes(candidate)) ?? ',';
+  const header = splitCsvLine(lines[0], delimiter).map((field) => field.toLowerCase());
+  const column = (names: string[]) => header.findIndex((field) => names.includes(field));
+  const columns = {
+    name: column(CSV_COLUMNS.name),
+    code: column(CSV_COLUMNS.code),
+    hex: column(CSV_COLUMNS.hex),
+    r: column(CSV_COLUMNS.r),
+    g: column(CSV_COLUMNS.g),
+    b: column(CSV_COLUMNS.b),
+  };
+  const hasRgb = columns.r >= 0 && columns.g >= 0 && columns.b >= 0;
+  const hasHeader = columns.hex >= 0 || hasRgb;
+
+  const colors = lines.slice(hasHeader ? 1 : 0).map((line, i) => {
+    const lineNumber = i + (hasHeader ? 2 : 1);
+    const fields = splitCsvLine(line, delimiter);
+
+    if (!hasHeader) {
+      const hexIndex = fields.findIndex((field) => HEX_PATTERN.test(field));
+      if (hexIndex === -1) {
+        throw new Error(`Line ${lineNumber}: no hex color such as #1a2b3c`);
+      }
+      const [name = '', code = ''] = fields.filter((_, index) => index !== hexIndex);
+      const hex = `#${fields[hexIndex].replace('#', '').toLowerCase()}`;
+      return { name: name || hex, code, hex };
+    }
+
+    let hex: string;
+    if (columns.hex >= 0 && HEX_PATTERN.test(fields[columns.hex] ?? '')) {
+      hex = `#${fields[columns.hex].replace('#', '').toLowerCase()}`;
+    } else if (hasRgb) {
+      const rgb = [columns.r, columns.g, columns.b].map((index) => Number(fields[index]));
+      if (rgb.some((value) => !Number.isInteger(value) || value < 0 || value > 255)) {
+        throw new Error(`Line ${lineNumber}: red, green and blue must be whole numbers from 0 to 255`);
+      }
+      hex = toHex(rgb[0], rgb[1], rgb[2]);
+    } else {
+      throw new Error(`Line ${lineNumber}: "${fields[columns.hex] ?? ''}" is not a hex color such as #1a2b3c`);
+    }
+
+    return {
+      name: (columns.name >= 0 ? fields[columns.name] : '') || hex,
+      code: columns.code >= 0 ? fields[columns.code] ?? '' : '',
+      hex,
+    };
+  });
+
+  return { name: baseName(fileName), colors };
+};
+
+// Picks the parser from the file extension
+export const readPaletteFile = async (file: File): Promise<ImportedPalette> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'gpl':
+      return parseGpl(await file.text(), file.name);
+    case 'ase':
+      return parseAse(await file.arrayBuffer(), file.name);
+    case 'csv':
+    case 'tsv':
+    case 'txt':
+      return parseCsvPalette(await file.text(), file.name);
+    default:
+      throw new Error(`${file.name}: palettes must be .gpl, .ase or .csv files`);
+  }
+};
+
+// RGB triplets for the engine
+export const toPaletteBytes = (colors: YarnColor[]): Uint8Array =>
+  Uint8Array.from(colors.flatMap(({ hex }) => {
+    const value = parseInt(hex.slice(1), 16);
+    return [value >> 16, (value >> 8) & 0xff, value & 0xff];
+  }));
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { encodeIndexedPng, readPngResolution, setPngResolution } from './png';
+
+const image = {
+  width: 3,
+  height: 2,
+  indices: Uint8Array.of(0, 1, 0, 1, 0, 1),
+  palette: Uint8Array.of(0, 0, 0, 255, 255, 255),
+};
+
+describe('PNG pHYs', () => {
+  it('is written by the indexed encoder', async () => {
+    const resolution = { x: 1200, y: 2000 };
+    expect(readPngResolution(await encodeIndexedPng(image, { resolution }))).toEqual(resolution);
+  });
+
+  it('is replaced rather than duplicated', async () => {
+    const bytes = await encodeIndexedPng(image, { resolution: { x: 2835, y: 2835 } });
+    const updated = setPngResolution(bytes, { x: 4724, y: 3937 });
+
+    expect(readPngResolution(updated)).toEqual({ x: 4724, y: 3937 });
+    expect(updated.length).toBe(bytes.length);
+  });
+
+  it('is absent when no resolution was given', async () => {
+    expect(readPngResolution(await encodeIndexedPng(image))).toBeUndefined();
+  });
+});
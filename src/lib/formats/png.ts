@@ -0,0 +1,143 @@
+import { getPaletteSize, MAX_PALETTE_COLORS, type IndexedImage } from '@/lib/engine';
+import { crc32 } from './crc32';
+import { isValidResolution, type Resolution } from './resolution';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const COLOR_TYPE_INDEXED = 3;
+const UNIT_METER = 1;
+
+export interface PngEncodeOptions {
+  resolution?: Resolution;
+}
+
+// Length, type, data and a CRC over type and data
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    bytes[4 + i] = type.charCodeAt(i);
+  }
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+
+  return bytes;
+};
+
+const physicalChunk = ({ x, y }: Resolution): Uint8Array => {
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, Math.round(x));
+  view.setUint32(4, Math.round(y));
+  data[8] = UNIT_METER;
+
+  return chunk('pHYs', data);
+};
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+// Calls `visit` with each chunk's type, data offset and length until it returns false
+const walkChunks = (bytes: Uint8Array, visit: (type: string, offset: number, length: number) => boolean | void) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (visit(type, offset + 8, length) === false) return;
+    offset += 12 + length;
+  }
+};
+
+// Resolution from the pHYs chunk, when it is given in pixels per meter
+export const readPngResolution = (bytes: Uint8Array): Resolution | undefined => {
+  if (!isPng(bytes)) return undefined;
+
+  let resolution: Resolution | undefined;
+  walkChunks(bytes, (type, offset) => {
+    if (type === 'IDAT') return false;
+    if (type === 'pHYs' && bytes[offset + 8] === UNIT_METER) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + offset, 8);
+      resolution = { x: view.getUint32(0), y: view.getUint32(4) };
+      return false;
+    }
+  });
+
+  return isValidResolution(resolution) ? resolution : undefined;
+};
+
+// Copy of a PNG with its pHYs chunk replaced, e.g. to add resolution to a canvas export
+export const setPngResolution = (bytes: Uint8Array, resolution: Resolution): Uint8Array => {
+  if (!isPng(bytes)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  walkChunks(bytes, (type, offset, length) => {
+    if (type !== 'pHYs') {
+      parts.push(bytes.subarray(offset - 8, offset + length + 4));
+    }
+    // pHYs has to come before the image data; right after IHDR always qualifies
+    if (type === 'IHDR') {
+      parts.push(physicalChunk(resolution));
+    }
+  });
+
+  return concat(parts);
+};
+
+// zlib stream, as IDAT expects
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Writes an 8-bit palette PNG whose PLTE chunk is the image's color table, unchanged
+export const encodeIndexedPng = async (
+  { width, height, indices, palette }: IndexedImage,
+  { resolution }: PngEncodeOptions = {}
+): Promise<Uint8Array> => {
+  if (width < 1 || height < 1) {
+    throw new Error('Cannot save an empty image as PNG');
+  }
+
+  const colors = getPaletteSize({ palette });
+  if (colors === 0 || colors > MAX_PALETTE_COLORS) {
+    throw new Error(`A palette PNG needs between 1 and ${MAX_PALETTE_COLORS} colors, not ${colors}`);
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = COLOR_TYPE_INDEXED;
+  // Compression, filter and interlace methods stay 0
+
+  // Every scanline starts with filter type 0 (none)
+  const scanlines = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    scanlines.set(indices.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  return concat([
+    Uint8Array.from(PNG_SIGNATURE),
+    chunk('IHDR', header),
+    ...(isValidResolution(resolution) ? [physicalChunk(resolution)] : []),
+    chunk('PLTE', palette),
+    chunk('IDAT', await deflate(scanlines)),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+};
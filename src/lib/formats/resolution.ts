@@ -0,0 +1,23 @@
+// Physical resolution in pixels per meter, the unit PNG and BMP store; on a loom one pixel is
+// one thread, so x counts warp ends and y counts weft picks
+export interface Resolution {
+  x: number;
+  y: number;
+}
+
+export type ResolutionUnit = 'dpi' | 'per-cm';
+
+const METERS_PER_INCH = 0.0254;
+
+// 72 DPI, the usual default when a file carries no resolution of its own
+export const DEFAULT_RESOLUTION: Resolution = { x: 2835, y: 2835 };
+
+export const toPixelsPerMeter = (value: number, unit: ResolutionUnit): number =>
+  unit === 'dpi' ? value / METERS_PER_INCH : value * 100;
+
+export const fromPixelsPerMeter = (pixelsPerMeter: number, unit: ResolutionUnit): number =>
+  unit === 'dpi' ? pixelsPerMeter * METERS_PER_INCH : pixelsPerMeter / 100;
+
+// Resolution worth keeping: readers treat zero as "unknown"
+export const isValidResolution = (resolution: Resolution | undefined): resolution is Resolution =>
+  resolution !== undefined && resolution.x > 0 && resolution.y > 0 && isFinite(resolution.x) && isFinite(resolution.y);
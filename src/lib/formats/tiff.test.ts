@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createPixelBuffer } from '@/lib/engine';
+import { decodeTiff, encodeTiff } from './tiff';
+
+// Long runs and repeats, so LZW codes grow past 9 bits
+const stripes = (width: number, height: number) => {
+  const buffer = createPixelBuffer(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const value = Math.floor((i % width) / 3) * 17;
+    buffer.data.set([value & 0xff, (value * 3) & 0xff, (i >> 5) & 0xff, 255], i * 4);
+  }
+  return buffer;
+};
+
+describe('TIFF', () => {
+  it.each(['none', 'lzw', 'packbits'] as const)('round-trips RGB with %s compression', (compression) => {
+    const source = stripes(64, 40);
+    expect(decodeTiff(encodeTiff(source, { compression })).image).toEqual(source);
+  });
+
+  it('round-trips RGBA with LZW', () => {
+    const source = stripes(33, 17);
+    source.data.forEach((_, i) => {
+      if (i % 4 === 3) source.data[i] = (i * 13) & 0xff;
+    });
+    expect(decodeTiff(encodeTiff(source, { colorMode: 'rgba', compression: 'lzw' })).image).toEqual(source);
+  });
+
+  it('keeps the palette and indices of an indexed image', () => {
+    const image = {
+      width: 4,
+      height: 3,
+      indices: Uint8Array.of(0, 1, 2, 1, 2, 0, 1, 2, 2, 2, 1, 0),
+      palette: Uint8Array.of(10, 20, 30, 200, 100, 0, 0, 255, 128),
+    };
+    const decoded = decodeTiff(encodeTiff(image, { colorMode: 'palette', compression: 'lzw' }));
+
+    expect(decoded.indices).toEqual(image.indices);
+    expect(decoded.palette).toEqual(image.palette);
+  });
+
+  it.each(['dpi', 'per-cm'] as const)('keeps the resolution written in %s', (resolutionUnit) => {
+    const resolution = { x: 1200, y: 2000 };
+    expect(decodeTiff(encodeTiff(stripes(2, 2), { resolution, resolutionUnit })).resolution).toEqual(resolution);
+  });
+});
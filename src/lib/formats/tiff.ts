@@ -0,0 +1,730 @@
+import {
+  CHANNELS,
+  createPixelBuffer,
+  expandIndexed,
+  getPaletteSize,
+  indexPixels,
+  MAX_PALETTE_COLORS,
+  type IndexedImage,
+  type PixelBuffer,
+} from '@/lib/engine';
+import {
+  DEFAULT_RESOLUTION,
+  fromPixelsPerMeter,
+  isValidResolution,
+  toPixelsPerMeter,
+  type Resolution,
+  type ResolutionUnit,
+} from './resolution';
+
+export type TiffColorMode = 'rgb' | 'rgba' | 'gray' | 'palette';
+export type TiffCompression = 'none' | 'lzw' | 'packbits';
+
+export interface TiffEncodeOptions {
+  colorMode?: TiffColorMode;
+  compression?: TiffCompression;
+  // Written to XResolution / YResolution; 72 DPI when omitted
+  resolution?: Resolution;
+  // ResolutionUnit of the file: inches for 'dpi', centimeters for 'per-cm'
+  resolutionUnit?: ResolutionUnit;
+}
+
+// Tags
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_PHOTOMETRIC = 262;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_X_RESOLUTION = 282;
+const TAG_Y_RESOLUTION = 283;
+const TAG_PLANAR_CONFIGURATION = 284;
+const TAG_RESOLUTION_UNIT = 296;
+const TAG_PREDICTOR = 317;
+const TAG_COLOR_MAP = 320;
+const TAG_TILE_WIDTH = 322;
+const TAG_EXTRA_SAMPLES = 338;
+
+// Field types
+const TYPE_BYTE = 1;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+// Compression schemes
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_PACKBITS = 32773;
+
+// Photometric interpretations
+const PHOTOMETRIC_WHITE_IS_ZERO = 0;
+const PHOTOMETRIC_BLACK_IS_ZERO = 1;
+const PHOTOMETRIC_RGB = 2;
+const PHOTOMETRIC_PALETTE = 3;
+
+const RESOLUTION_UNIT_INCH = 2;
+const RESOLUTION_UNIT_CENTIMETER = 3;
+const EXTRA_SAMPLE_ASSOCIATED_ALPHA = 1;
+const EXTRA_SAMPLE_UNASSOCIATED_ALPHA = 2;
+const PREDICTOR_HORIZONTAL = 2;
+
+// LZW codes; codes are 9 to 12 bits wide
+const LZW_CLEAR = 256;
+const LZW_END = 257;
+const LZW_FIRST = 258;
+const LZW_MAX_BITS = 12;
+
+// Strips of about 8 KB, as the specification recommends
+const STRIP_SIZE = 8192;
+
+const COMPRESSION_CODES: Record<TiffCompression, number> = {
+  none: COMPRESSION_NONE,
+  lzw: COMPRESSION_LZW,
+  packbits: COMPRESSION_PACKBITS,
+};
+
+// Writes codes most significant bit first, the order TIFF's LZW uses
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private bits = 0;
+
+  write(code: number, width: number) {
+    this.buffer = (this.buffer << width) | code;
+    this.bits += width;
+    while (this.bits >= 8) {
+      this.bits -= 8;
+      this.bytes.push((this.buffer >>> this.bits) & 0xff);
+    }
+    this.buffer &= (1 << this.bits) - 1;
+  }
+
+  finish(): Uint8Array {
+    if (this.bits > 0) {
+      this.bytes.push((this.buffer << (8 - this.bits)) & 0xff);
+    }
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+// LZW as libtiff writes it: a clear code first, wider codes once the table outgrows the current width,
+// and a fresh table when it fills up
+const encodeLzw = (data: Uint8Array): Uint8Array => {
+  const writer = new BitWriter();
+  // Keyed by prefix code * 256 + next byte
+  const table = new Map<number, number>();
+  let width = 9;
+  let nextCode = LZW_FIRST;
+
+  // Counts a new table entry, widening the codes or starting over when the table is full
+  const grow = () => {
+    nextCode++;
+    if (nextCode === (1 << LZW_MAX_BITS) - 2) {
+      writer.write(LZW_CLEAR, width);
+      table.clear();
+      width = 9;
+      nextCode = LZW_FIRST;
+    } else if (nextCode >= 1 << width) {
+      width++;
+    }
+  };
+
+  writer.write(LZW_CLEAR, width);
+  if (data.length === 0) {
+    writer.write(LZW_END, width);
+    return writer.finish();
+  }
+
+  let prefix = data[0];
+  for (let i = 1; i < data.length; i++) {
+    const key = prefix * 256 + data[i];
+    const code = table.get(key);
+
+    if (code !== undefined) {
+      prefix = code;
+    } else {
+      writer.write(prefix, width);
+      table.set(key, nextCode);
+      grow();
+      prefix = data[i];
+    }
+  }
+
+  // The reader adds a table entry after the last code too, so the width may change before the end code
+  writer.write(prefix, width);
+  grow();
+  writer.write(LZW_END, width);
+
+  return writer.finish();
+};
+
+const decodeLzw = (bytes: Uint8Array, expectedLength: number): Uint8Array => {
+  const output = new Uint8Array(expectedLength);
+  const prefixes = new Int32Array(1 << LZW_MAX_BITS);
+  const suffixes = new Uint8Array(1 << LZW_MAX_BITS);
+  const lengths = new Int32Array(1 << LZW_MAX_BITS);
+  for (let i = 0; i < 256; i++) {
+    suffixes[i] = i;
+    lengths[i] = 1;
+  }
+
+  let written = 0;
+  let bitPosition = 0;
+  let width = 9;
+  let nextCode = LZW_FIRST;
+  let previous = -1;
+
+  const readCode = (): number => {
+    if (bitPosition + width > bytes.length * 8) return LZW_END;
+
+    let code = 0;
+    for (let i = 0; i < width; i++) {
+      const bit = bitPosition + i;
+      code = (code << 1) | ((bytes[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    bitPosition += width;
+
+    return code;
+  };
+
+  // Copies the string for a code to the output and returns its first byte
+  const emit = (code: number): number => {
+    const length = lengths[code];
+    let position = written + length - 1;
+    let current = code;
+
+    while (current >= 0 && position >= written) {
+      if (position < output.length) output[position] = suffixes[current];
+      position--;
+      current = lengths[current] > 1 ? prefixes[current] : -1;
+    }
+    written += length;
+
+    let first = code;
+    while (lengths[first] > 1) first = prefixes[first];
+    return suffixes[first];
+  };
+
+  while (written < expectedLength) {
+    const code = readCode();
+    if (code === LZW_END) break;
+
+    if (code === LZW_CLEAR) {
+      width = 9;
+      nextCode = LZW_FIRST;
+      previous = -1;
+      continue;
+    }
+
+    if (previous === -1) {
+      if (code > 255) {
+        throw new Error('TIFF LZW data is corrupt');
+      }
+      emit(code);
+      previous = code;
+      continue;
+    }
+
+    if (code > nextCode) {
+      throw new Error('TIFF LZW data is corrupt');
+    }
+
+    // A code not in the table yet is the previous string followed by its own first byte
+    const first = code < nextCode ? emit(code) : -1;
+    if (nextCode < 1 << LZW_MAX_BITS) {
+      prefixes[nextCode] = previous;
+      lengths[nextCode] = lengths[previous] + 1;
+
+      if (first >= 0) {
+        suffixes[nextCode] = first;
+      } else {
+        let start = previous;
+        while (lengths[start] > 1) start = prefixes[start];
+        suffixes[nextCode] = suffixes[start];
+        emit(nextCode);
+      }
+
+      nextCode++;
+      // Readers switch one code early, matching the writer's table that runs one entry ahead
+      if (nextCode >= (1 << width) - 1 && width < LZW_MAX_BITS) {
+        width++;
+      }
+    }
+
+    previous = code;
+  }
+
+  return output;
+};
+
+// PackBits run-length encoding; each row is packed on its own
+const encodePackBits = (data: Uint8Array, rowSize: number): Uint8Array => {
+  const output: number[] = [];
+
+  for (let rowStart = 0; rowStart < data.length; rowStart += rowSize) {
+    const rowEnd = Math.min(rowStart + rowSize, data.length);
+    let i = rowStart;
+
+    while (i < rowEnd) {
+      let run = 1;
+      while (i + run < rowEnd && run < 128 && data[i + run] === data[i]) run++;
+
+      if (run > 1) {
+        output.push(257 - run, data[i]);
+        i += run;
+        continue;
+      }
+
+      // Literal bytes until the next run of three or more
+      let literal = 1;
+      while (
+        i + literal < rowEnd &&
+        literal < 128 &&
+        !(i + literal + 2 < rowEnd && data[i + literal] === data[i + literal + 1] && data[i + literal] === data[i + literal + 2])
+      ) {
+        literal++;
+      }
+
+      output.push(literal - 1);
+      for (let n = 0; n < literal; n++) output.push(data[i + n]);
+      i += literal;
+    }
+  }
+
+  return Uint8Array.from(output);
+};
+
+const decodePackBits = (bytes: Uint8Array, expectedLength: number): Uint8Array => {
+  const output = new Uint8Array(expectedLength);
+  let written = 0;
+  let i = 0;
+
+  while (i < bytes.length && written < expectedLength) {
+    const header = bytes[i] > 127 ? bytes[i] - 256 : bytes[i];
+    i++;
+
+    if (header >= 0) {
+      const count = Math.min(header + 1, bytes.length - i, expectedLength - written);
+      output.set(bytes.subarray(i, i + count), written);
+      written += count;
+      i += header + 1;
+    } else if (header !== -128) {
+      const count = Math.min(1 - header, expectedLength - written);
+      output.fill(bytes[i], written, written + count);
+      written += count;
+      i++;
+    }
+  }
+
+  return output;
+};
+
+const luminance = (data: Uint8ClampedArray, offset: number) =>
+  Math.round(0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]);
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  // Rationals are numerator, denominator pairs
+  values: number[];
+}
+
+// Bytes per value; a rational is two longs
+const TYPE_SIZES: Record<number, number> = { [TYPE_BYTE]: 1, [TYPE_SHORT]: 2, [TYPE_LONG]: 4, [TYPE_RATIONAL]: 4 };
+
+const entrySize = ({ type, values }: IfdEntry) => TYPE_SIZES[type] * values.length;
+
+// Resolution per inch or per centimeter, to four decimal places
+const resolutionRational = (pixelsPerMeter: number, unit: ResolutionUnit) => [
+  Math.round(fromPixelsPerMeter(pixelsPerMeter, unit) * 10000),
+  10000,
+];
+
+// Writes a little-endian baseline TIFF with 8-bit samples in strips. Palette files keep an indexed
+// image's indices and color table unchanged; RGBA pixels are indexed by their own colors, at most 256.
+export const encodeTiff = (
+  source: PixelBuffer | IndexedImage,
+  { colorMode = 'rgb', compression = 'none', resolution = DEFAULT_RESOLUTION, resolutionUnit = 'dpi' }: TiffEncodeOptions = {}
+): Uint8Array => {
+  const { width, height } = source;
+
+  if (width < 1 || height < 1) {
+    throw new Error('Cannot save an empty image as TIFF');
+  }
+
+  const image = 'indices' in source ? expandIndexed(source) : source;
+  const { data } = image;
+  const samples = colorMode === 'rgba' ? 4 : colorMode === 'rgb' ? 3 : 1;
+  const pixels = new Uint8Array(width * height * samples);
+  let indexed: IndexedImage | null = null;
+
+  if (colorMode === 'palette') {
+    indexed = 'indices' in source ? source : indexPixels(image);
+    if (!indexed) {
+      throw new Error(`The image has more than ${MAX_PALETTE_COLORS} colors; save it as RGB TIFF or reduce its colors first`);
+    }
+    if (getPaletteSize(indexed) > MAX_PALETTE_COLORS) {
+      throw new Error(`The palette has ${getPaletteSize(indexed)} colors, more than an 8-bit TIFF can hold`);
+    }
+    pixels.set(indexed.indices);
+  } else {
+    for (let i = 0; i < width * height; i++) {
+      const offset = i * CHANNELS;
+      if (colorMode === 'gray') {
+        pixels[i] = luminance(data, offset);
+      } else {
+        for (let c = 0; c < samples; c++) {
+          pixels[i * samples + c] = data[offset + c];
+        }
+      }
+    }
+  }
+
+  const rowSize = width * samples;
+  const rowsPerStrip = Math.max(1, Math.floor(STRIP_SIZE / rowSize));
+  const strips: Uint8Array[] = [];
+
+  for (let row = 0; row < height; row += rowsPerStrip) {
+    const strip = pixels.subarray(row * rowSize, Math.min(row + rowsPerStrip, height) * rowSize);
+    strips.push(compression === 'lzw' ? encodeLzw(strip) : compression === 'packbits' ? encodePackBits(strip, rowSize) : strip);
+  }
+
+  // Header, then the strips (each starting on a word boundary), then the IFD and its values
+  const stripOffsets: number[] = [];
+  let offset = 8;
+  for (const strip of strips) {
+    stripOffsets.push(offset);
+    offset += strip.length + (strip.length % 2);
+  }
+
+  const photometric = colorMode === 'palette' ? PHOTOMETRIC_PALETTE : colorMode === 'gray' ? PHOTOMETRIC_BLACK_IS_ZERO : PHOTOMETRIC_RGB;
+
+  const entries: IfdEntry[] = [
+    { tag: TAG_IMAGE_WIDTH, type: TYPE_LONG, values: [width] },
+    { tag: TAG_IMAGE_LENGTH, type: TYPE_LONG, values: [height] },
+    { tag: TAG_BITS_PER_SAMPLE, type: TYPE_SHORT, values: new Array(samples).fill(8) },
+    { tag: TAG_COMPRESSION, type: TYPE_SHORT, values: [COMPRESSION_CODES[compression]] },
+    { tag: TAG_PHOTOMETRIC, type: TYPE_SHORT, values: [photometric] },
+    { tag: TAG_STRIP_OFFSETS, type: TYPE_LONG, values: stripOffsets },
+    { tag: TAG_SAMPLES_PER_PIXEL, type: TYPE_SHORT, values: [samples] },
+    { tag: TAG_ROWS_PER_STRIP, type: TYPE_LONG, values: [rowsPerStrip] },
+    { tag: TAG_STRIP_BYTE_COUNTS, type: TYPE_LONG, values: strips.map((strip) => strip.length) },
+    { tag: TAG_X_RESOLUTION, type: TYPE_RATIONAL, values: resolutionRational(resolution.x, resolutionUnit) },
+    { tag: TAG_Y_RESOLUTION, type: TYPE_RATIONAL, values: resolutionRational(resolution.y, resolutionUnit) },
+    { tag: TAG_PLANAR_CONFIGURATION, type: TYPE_SHORT, values: [1] },
+    { tag: TAG_RESOLUTION_UNIT, type: TYPE_SHORT, values: [resolutionUnit === 'dpi' ? RESOLUTION_UNIT_INCH : RESOLUTION_UNIT_CENTIMETER] },
+  ];
+
+  if (indexed) {
+    // All reds, then all greens, then all blues, as 16-bit values; unused entries stay black
+    const colorMap = new Array(3 * 256).fill(0);
+    for (let i = 0; i < getPaletteSize(indexed); i++) {
+      for (let c = 0; c < 3; c++) {
+        colorMap[c * 256 + i] = indexed.palette[i * 3 + c] * 257;
+      }
+    }
+    entries.push({ tag: TAG_COLOR_MAP, type: TYPE_SHORT, values: colorMap });
+  }
+
+  if (colorMode === 'rgba') {
+    entries.push({ tag: TAG_EXTRA_SAMPLES, type: TYPE_SHORT, values: [EXTRA_SAMPLE_UNASSOCIATED_ALPHA] });
+  }
+
+  const ifdOffset = offset;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const valuesSize = entries.reduce((sum, entry) => {
+    const size = entrySize(entry);
+    return size > 4 ? sum + size + (size % 2) : sum;
+  }, 0);
+
+  const bytes = new Uint8Array(ifdOffset + ifdSize + valuesSize);
+  const view = new DataView(bytes.buffer);
+
+  bytes[0] = 0x49; // I
+  bytes[1] = 0x49; // I
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+
+  strips.forEach((strip, i) => bytes.set(strip, stripOffsets[i]));
+
+  view.setUint16(ifdOffset, entries.length, true);
+  let valueOffset = ifdOffset + ifdSize;
+
+  entries.forEach((entry, i) => {
+    const position = ifdOffset + 2 + i * 12;
+    const size = entrySize(entry);
+    const count = entry.type === TYPE_RATIONAL ? entry.values.length / 2 : entry.values.length;
+    let target = position + 8;
+
+    view.setUint16(position, entry.tag, true);
+    view.setUint16(position + 2, entry.type, true);
+    view.setUint32(position + 4, count, true);
+
+    if (size > 4) {
+      view.setUint32(position + 8, valueOffset, true);
+      target = valueOffset;
+      valueOffset += size + (size % 2);
+    }
+
+    entry.values.forEach((value, n) => {
+      if (entry.type === TYPE_SHORT) {
+        view.setUint16(target + n * 2, value, true);
+      } else {
+        view.setUint32(target + n * 4, value, true);
+      }
+    });
+  });
+
+  // The next-IFD offset after the entries stays 0: this is the only image
+  return bytes;
+};
+
+export interface DecodedTiff {
+  image: PixelBuffer;
+  // Bits per pixel as stored in the file
+  bitDepth: number;
+  // From XResolution / YResolution, when the file gives them in inches or centimeters
+  resolution?: Resolution;
+  // RGB triplets of the color map, for palette files
+  palette?: Uint8Array;
+  // Palette index of every pixel, row-major from the top, for palette files
+  indices?: Uint8Array;
+}
+
+const isTiff = (bytes: Uint8Array) =>
+  bytes.length >= 8 &&
+  ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42));
+
+// Reads the first image of a strip-based TIFF: 8-bit RGB or RGBA, grayscale or palette at 1, 2, 4
+// or 8 bits, uncompressed, LZW (with or without the horizontal predictor) or PackBits. Palette files
+// keep their color map and pixel indices.
+export const decodeTiff = (input: ArrayBuffer | Uint8Array): DecodedTiff => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+
+  if (!isTiff(bytes)) {
+    throw new Error('Not a TIFF file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[0] === 0x49;
+  const ifdOffset = view.getUint32(4, littleEndian);
+
+  if (ifdOffset + 2 > bytes.length) {
+    throw new Error('TIFF file is truncated');
+  }
+
+  // Values of every tag in the first IFD; rationals become numbers
+  const tags = new Map<number, number[]>();
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+
+  for (let i = 0; i < entryCount; i++) {
+    const position = ifdOffset + 2 + i * 12;
+    if (position + 12 > bytes.length) {
+      throw new Error('TIFF file is truncated');
+    }
+
+    const tag = view.getUint16(position, littleEndian);
+    const type = view.getUint16(position + 2, littleEndian);
+    const count = view.getUint32(position + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+
+    // Other field types don't occur in the tags read here
+    if (!size) continue;
+
+    const byteLength = size * count * (type === TYPE_RATIONAL ? 2 : 1);
+    const start = byteLength > 4 ? view.getUint32(position + 8, littleEndian) : position + 8;
+    if (start + byteLength > bytes.length) {
+      throw new Error('TIFF file is truncated');
+    }
+
+    const values: number[] = [];
+    for (let n = 0; n < count; n++) {
+      if (type === TYPE_BYTE) {
+        values.push(bytes[start + n]);
+      } else if (type === TYPE_SHORT) {
+        values.push(view.getUint16(start + n * 2, littleEndian));
+      } else if (type === TYPE_LONG) {
+        values.push(view.getUint32(start + n * 4, littleEndian));
+      } else {
+        const denominator = view.getUint32(start + n * 8 + 4, littleEndian);
+        values.push(denominator === 0 ? 0 : view.getUint32(start + n * 8, littleEndian) / denominator);
+      }
+    }
+    tags.set(tag, values);
+  }
+
+  const single = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+
+  const width = single(TAG_IMAGE_WIDTH, 0);
+  const height = single(TAG_IMAGE_LENGTH, 0);
+  const samples = single(TAG_SAMPLES_PER_PIXEL, 1);
+  const bitsPerSample = single(TAG_BITS_PER_SAMPLE, 1);
+  const compression = single(TAG_COMPRESSION, COMPRESSION_NONE);
+  const photometric = single(TAG_PHOTOMETRIC, PHOTOMETRIC_BLACK_IS_ZERO);
+  const predictor = single(TAG_PREDICTOR, 1);
+  const extraSample = tags.get(TAG_EXTRA_SAMPLES)?.[0];
+
+  if (width < 1 || height < 1) {
+    throw new Error('TIFF has no pixels');
+  }
+
+  if (tags.has(TAG_TILE_WIDTH)) {
+    throw new Error('Tiled TIFFs are not supported; save the file with strips');
+  }
+
+  if (single(TAG_PLANAR_CONFIGURATION, 1) !== 1) {
+    throw new Error('Planar TIFFs are not supported; save the file with interleaved channels');
+  }
+
+  if (![COMPRESSION_NONE, COMPRESSION_LZW, COMPRESSION_PACKBITS].includes(compression)) {
+    throw new Error(`Unsupported TIFF compression: ${compression}`);
+  }
+
+  const gray = photometric === PHOTOMETRIC_WHITE_IS_ZERO || photometric === PHOTOMETRIC_BLACK_IS_ZERO;
+  const rgb = photometric === PHOTOMETRIC_RGB;
+  const paletted = photometric === PHOTOMETRIC_PALETTE;
+
+  if (!gray && !rgb && !paletted) {
+    throw new Error(`Unsupported TIFF color type: photometric interpretation ${photometric}`);
+  }
+
+  if ((rgb && (bitsPerSample !== 8 || samples < 3)) || (!rgb && ![1, 2, 4, 8].includes(bitsPerSample))) {
+    throw new Error(`Unsupported TIFF bit depth: ${bitsPerSample} bits per sample`);
+  }
+
+  if (tags.get(TAG_BITS_PER_SAMPLE)?.some((bits) => bits !== bitsPerSample)) {
+    throw new Error('TIFF channels with different bit depths are not supported');
+  }
+
+  const stripOffsets = tags.get(TAG_STRIP_OFFSETS);
+  const stripByteCounts = tags.get(TAG_STRIP_BYTE_COUNTS);
+  if (!stripOffsets || !stripByteCounts || stripOffsets.length !== stripByteCounts.length) {
+    throw new Error('TIFF has no strip data');
+  }
+
+  const rowsPerStrip = Math.min(single(TAG_ROWS_PER_STRIP, height), height);
+  const rowSize = Math.ceil((width * samples * bitsPerSample) / 8);
+  const pixels = new Uint8Array(rowSize * height);
+
+  stripOffsets.forEach((stripOffset, i) => {
+    const firstRow = i * rowsPerStrip;
+    if (firstRow >= height) return;
+
+    const stripLength = (Math.min(firstRow + rowsPerStrip, height) - firstRow) * rowSize;
+    const stripBytes = bytes.subarray(stripOffset, stripOffset + stripByteCounts[i]);
+    if (stripOffset + stripByteCounts[i] > bytes.length) {
+      throw new Error('TIFF file is truncated');
+    }
+
+    const strip =
+      compression === COMPRESSION_LZW
+        ? decodeLzw(stripBytes, stripLength)
+        : compression === COMPRESSION_PACKBITS
+          ? decodePackBits(stripBytes, stripLength)
+          : stripBytes.subarray(0, stripLength);
+    pixels.set(strip, firstRow * rowSize);
+  });
+
+  // Horizontal differencing: each sample is stored as the difference from the one to its left
+  if (predictor === PREDICTOR_HORIZONTAL && bitsPerSample === 8) {
+    for (let y = 0; y < height; y++) {
+      for (let i = y * rowSize + samples; i < (y + 1) * rowSize; i++) {
+        pixels[i] = (pixels[i] + pixels[i - samples]) & 0xff;
+      }
+    }
+  }
+
+  const maxValue = (1 << bitsPerSample) - 1;
+  const sampleAt = (y: number, index: number): number => {
+    if (bitsPerSample === 8) return pixels[y * rowSize + index];
+
+    // Most significant bits hold the leftmost pixel
+    const bit = index * bitsPerSample;
+    return (pixels[y * rowSize + (bit >> 3)] >> (8 - bitsPerSample - (bit & 7))) & maxValue;
+  };
+
+  let palette: Uint8Array | undefined;
+  let indices: Uint8Array | undefined;
+  // The color map always has an entry for every possible value; only the used ones are kept
+  let usedColors = 0;
+
+  if (paletted) {
+    const colorMap = tags.get(TAG_COLOR_MAP);
+    const count = 1 << bitsPerSample;
+    if (!colorMap || colorMap.length < count * 3) {
+      throw new Error('Palette TIFF has no color map');
+    }
+
+    palette = new Uint8Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      for (let c = 0; c < 3; c++) {
+        palette[i * 3 + c] = colorMap[c * count + i] >> 8;
+      }
+    }
+    indices = new Uint8Array(width * height);
+  }
+
+  const image = createPixelBuffer(width, height);
+  const target = image.data;
+  const hasAlpha = samples > (rgb ? 3 : 1) && extraSample !== undefined && extraSample !== 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const targetIndex = pixel * CHANNELS;
+      const first = sampleAt(y, x * samples);
+
+      if (indices && palette) {
+        // Out-of-range indices can't happen: the color map covers every value
+        indices[pixel] = first;
+        usedColors = Math.max(usedColors, first + 1);
+        target[targetIndex] = palette[first * 3];
+        target[targetIndex + 1] = palette[first * 3 + 1];
+        target[targetIndex + 2] = palette[first * 3 + 2];
+      } else if (gray) {
+        const scaled = Math.round((first * 255) / maxValue);
+        const value = photometric === PHOTOMETRIC_WHITE_IS_ZERO ? 255 - scaled : scaled;
+        target[targetIndex] = target[targetIndex + 1] = target[targetIndex + 2] = value;
+      } else {
+        target[targetIndex] = first;
+        target[targetIndex + 1] = sampleAt(y, x * samples + 1);
+        target[targetIndex + 2] = sampleAt(y, x * samples + 2);
+      }
+
+      const alpha = hasAlpha ? Math.round((sampleAt(y, x * samples + (rgb ? 3 : 1)) * 255) / maxValue) : 255;
+      target[targetIndex + 3] = alpha;
+
+      // Associated alpha is premultiplied into the colors
+      if (hasAlpha && extraSample === EXTRA_SAMPLE_ASSOCIATED_ALPHA && alpha > 0 && !indices) {
+        for (let c = 0; c < 3; c++) {
+          target[targetIndex + c] = Math.min(255, Math.round((target[targetIndex + c] * 255) / alpha));
+        }
+      }
+    }
+  }
+
+  palette = palette?.slice(0, usedColors * 3);
+
+  const unit = single(TAG_RESOLUTION_UNIT, RESOLUTION_UNIT_INCH);
+  const xResolution = tags.get(TAG_X_RESOLUTION)?.[0];
+  const yResolution = tags.get(TAG_Y_RESOLUTION)?.[0];
+  const resolution =
+    xResolution !== undefined && yResolution !== undefined && unit !== 1
+      ? {
+          x: toPixelsPerMeter(xResolution, unit === RESOLUTION_UNIT_CENTIMETER ? 'per-cm' : 'dpi'),
+          y: toPixelsPerMeter(yResolution, unit === RESOLUTION_UNIT_CENTIMETER ? 'per-cm' : 'dpi'),
+        }
+      : undefined;
+
+  return {
+    image,
+    bitDepth: bitsPerSample * samples,
+    resolution: isValidResolution(resolution) ? resolution : undefined,
+    palette,
+    indices,
+  };
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWif, parseWif, WifError, type WifDraft } from './wif';
+
+const twill = [
+  '[WIF]',
+  'Version=1.1',
+  '[CONTENTS]',
+  'WEAVING=true',
+  '[TEXT]',
+  'Title=2/2 twill ; a comment',
+  '[WEAVING]',
+  'Shafts=4',
+  'Treadles=4',
+  '[WARP]',
+  'Threads=8',
+  '[WEFT]',
+  'Threads=4',
+  '[THREADING]',
+  ...[1, 2, 3, 4, 5, 6, 7, 8].map((end) => `${end}=${((end - 1) % 4) + 1}`),
+  '[TIEUP]',
+  '1=1,2',
+  '2=2,3',
+  '3=3,4',
+  '4=4,1',
+  '[TREADLING]',
+  '1=1',
+  '2=2',
+  '4=4',
+].join('\r\n');
+
+const errorFor = (text: string) => {
+  try {
+    parseWif(text);
+  } catch (error) {
+    return error;
+  }
+  return null;
+};
+
+describe('parseWif', () => {
+  it('reads a treadled draft', () => {
+    const draft = parseWif(twill);
+
+    expect(draft.title).toBe('2/2 twill');
+    expect(draft).toMatchObject({ shafts: 4, treadles: 4, ends: 8, picks: 4 });
+    expect(draft.threading).toEqual([[1], [2], [3], [4], [1], [2], [3], [4]]);
+    expect(draft.tieup[3]).toEqual([4, 1]);
+    // Skipped picks are empty
+    expect(draft.treadling).toEqual([[1], [2], [], [4]]);
+  });
+
+  it('reads back what encodeWif writes', () => {
+    const draft: WifDraft = {
+      title: 'Liftplan',
+      shafts: 3,
+      treadles: 0,
+      ends: 3,
+      picks: 2,
+      threading: [[1], [2], [3]],
+      tieup: [],
+      treadling: [],
+      liftplan: [[1, 3], [2]],
+    };
+    const text = encodeWif(draft, { warpColor: [0, 0, 0], weftColor: [255, 255, 255], date: new Date(2024, 0, 1) });
+
+    expect(parseWif(text)).toEqual(draft);
+  });
+
+  it('reports the line of a bad entry', () => {
+    const error = errorFor(twill.replace('3=3,4', '3=3,9'));
+    expect(error).toBeInstanceOf(WifError);
+    expect((error as WifError).line).toBe(twill.split('\r\n').indexOf('3=3,4') + 1);
+  });
+
+  it('rejects keys above the declared counts', () => {
+    expect(errorFor(`${twill}\r\n9=1`)).toBeInstanceOf(WifError);
+    expect(errorFor(twill.replace('[TREADLING]', '5=1\r\n[TREADLING]'))).toBeInstanceOf(WifError);
+  });
+
+  it('needs a thread count for the lists it has', () => {
+    expect(errorFor(twill.replace('[WARP]\r\nThreads=8\r\n', ''))).toBeInstanceOf(WifError);
+  });
+
+  it('rejects files without a [WIF] section', () => {
+    expect(errorFor('[WEAVING]\r\nShafts=2')).toBeInstanceOf(WifError);
+  });
+});
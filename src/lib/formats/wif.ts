@@ -0,0 +1,273 @@
+import type { LoomDraft } from '@/lib/engine';
+
+// Weave Information File (WIF 1.1): an INI-style text file with a [WIF] header and sections such
+// as [WEAVING], [THREADING], [TIEUP] and [TREADLING]. Ends, picks, shafts and treadles are 1-based.
+export interface WifDraft {
+  // From [TEXT] Title, when present
+  title?: string;
+  shafts: number;
+  treadles: number;
+  // Warp ends and weft picks
+  ends: number;
+  picks: number;
+  // Shafts each end is threaded on; empty for unthreaded ends
+  threading: number[][];
+  // Shafts each treadle lifts
+  tieup: number[][];
+  // Treadles pressed for each pick
+  treadling: number[][];
+  // Shafts lifted for each pick, for dobby drafts without treadles
+  liftplan: number[][];
+}
+
+// A malformed file; `line` is 1-based
+export class WifError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'WifError';
+  }
+}
+
+interface WifEntry {
+  key: string;
+  value: string;
+  line: number;
+}
+
+type WifSections = Map<string, WifEntry[]>;
+
+const splitSections = (text: string): { sections: WifSections; headerLines: Map<string, number> } => {
+  const sections: WifSections = new Map();
+  const headerLines = new Map<string, number>();
+  let current: WifEntry[] | null = null;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith(';')) return;
+
+    const header = /^\[([^\]]+)\]$/.exec(trimmed);
+    if (header) {
+      const name = header[1].trim().toUpperCase();
+      if (sections.has(name)) {
+        throw new WifError(`[${name}] appears twice`, line);
+      }
+      current = [];
+      sections.set(name, current);
+      headerLines.set(name, line);
+      return;
+    }
+
+    if (!current) {
+      throw new WifError(`"${trimmed}" comes before any [SECTION] header`, line);
+    }
+
+    const separator = trimmed.indexOf('=');
+    if (separator === -1) {
+      throw new WifError(`expected "key=value", got "${trimmed}"`, line);
+    }
+
+    current.push({
+      key: trimmed.slice(0, separator).trim(),
+      // Trailing comments are allowed after values
+      value: trimmed.slice(separator + 1).replace(/;.*$/, '').trim(),
+      line,
+    });
+  });
+
+  return { sections, headerLines };
+};
+
+const parseCount = (entry: WifEntry, what: string): number => {
+  const value = Number(entry.value);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new WifError(`${what} must be a whole number, not "${entry.value}"`, entry.line);
+  }
+  return value;
+};
+
+// How many entries a numbered list may have, and where that count comes from
+interface KeyLimit {
+  name: string;
+  count: number;
+  declaredIn: string;
+}
+
+// Reads a numbered list such as [THREADING]: "end=shaft,shaft". Keys may skip numbers but not
+// go past the declared count, so a stray key can't make the list huge.
+const parseNumberedLists = (
+  entries: WifEntry[] | undefined,
+  section: string,
+  keys: KeyLimit,
+  valueName: string,
+  maxValue: number
+): number[][] => {
+  const lists: number[][] = [];
+
+  for (const entry of entries ?? []) {
+    const index = Number(entry.key);
+    if (!Number.isInteger(index) || index < 1) {
+      throw new WifError(`[${section}] keys must be numbers from 1, not "${entry.key}"`, entry.line);
+    }
+    if (index > keys.count) {
+      throw new WifError(`${keys.name} ${index} is more than the ${keys.count} declared in [${keys.declaredIn}]`, entry.line);
+    }
+
+    const values = entry.value === '' ? [] : entry.value.split(',').map((part) => Number(part.trim()));
+    const invalid = values.find((value) => !Number.isInteger(value) || value < 0);
+    if (invalid !== undefined) {
+      throw new WifError(`[${section}] values must be ${valueName} numbers, not "${entry.value}"`, entry.line);
+    }
+
+    const tooLarge = values.find((value) => value > maxValue);
+    if (tooLarge !== undefined) {
+      throw new WifError(`${valueName} ${tooLarge} is more than the ${maxValue} declared in [WEAVING]`, entry.line);
+    }
+
+    // 0 means "none" in some writers
+    lists[index - 1] = values.filter((value) => value > 0);
+  }
+
+  return Array.from(lists, (list) => list ?? []);
+};
+
+const padTo = (lists: number[][], length: number) =>
+  lists.length >= length ? lists : [...lists, ...Array.from({ length: length - lists.length }, () => [])];
+
+const findValue = (entries: WifEntry[] | undefined, key: string) =>
+  entries?.find((entry) => entry.key.toLowerCase() === key.toLowerCase());
+
+// Threads of [WARP] or [WEFT], which the numbered lists in `lists` need; 0 when none of them is present
+const parseThreads = (sections: WifSections, headerLines: Map<string, number>, section: string, lists: string[]) => {
+  const entry = findValue(sections.get(section), 'Threads');
+  if (entry) {
+    return parseCount(entry, 'Threads');
+  }
+
+  const list = lists.find((name) => (sections.get(name)?.length ?? 0) > 0);
+  if (list) {
+    throw new WifError(`[${section}] must give the number of Threads for [${list}]`, headerLines.get(list) ?? 1);
+  }
+  return 0;
+};
+
+export const parseWif = (text: string): WifDraft => {
+  const { sections, headerLines } = splitSections(text);
+
+  if (!sections.has('WIF')) {
+    throw new WifError('not a WIF file: the [WIF] section is missing', 1);
+  }
+
+  const weaving = sections.get('WEAVING');
+  const shaftsEntry = findValue(weaving, 'Shafts');
+  const treadlesEntry = findValue(weaving, 'Treadles');
+  if (!shaftsEntry) {
+    throw new WifError('[WEAVING] must give the number of Shafts', headerLines.get('WEAVING') ?? 1);
+  }
+
+  const shafts = parseCount(shaftsEntry, 'Shafts');
+  const treadles = treadlesEntry ? parseCount(treadlesEntry, 'Treadles') : 0;
+
+  const ends = parseThreads(sections, headerLines, 'WARP', ['THREADING']);
+  const picks = parseThreads(sections, headerLines, 'WEFT', ['TREADLING', 'LIFTPLAN']);
+  const endKeys = { name: 'end', count: ends, declaredIn: 'WARP' };
+  const pickKeys = { name: 'pick', count: picks, declaredIn: 'WEFT' };
+
+  const threading = parseNumberedLists(sections.get('THREADING'), 'THREADING', endKeys, 'shaft', shafts);
+  const tieup = parseNumberedLists(
+    sections.get('TIEUP'),
+    'TIEUP',
+    { name: 'treadle', count: treadles, declaredIn: 'WEAVING' },
+    'shaft',
+    shafts
+  );
+  const treadling = parseNumberedLists(sections.get('TREADLING'), 'TREADLING', pickKeys, 'treadle', treadles);
+  const liftplan = parseNumberedLists(sections.get('LIFTPLAN'), 'LIFTPLAN', pickKeys, 'shaft', shafts);
+
+  return {
+    title: findValue(sections.get('TEXT'), 'Title')?.value || undefined,
+    shafts,
+    treadles,
+    ends,
+    picks,
+    threading: padTo(threading, ends),
+    tieup: padTo(tieup, treadles),
+    treadling: padTo(treadling, treadling.length > 0 ? picks : 0),
+    liftplan: padTo(liftplan, liftplan.length > 0 ? picks : 0),
+  };
+};
+
+export interface WifEncodeOptions {
+  warpColor: [number, number, number];
+  weftColor: [number, number, number];
+  // Defaults to now
+  date?: Date;
+}
+
+// The loom draft as WIF lists, with either tie-up and treadling or a liftplan. Pick 1 is the
+// bottom row of the image, the first one woven. `shafts` is the loom's shaft count, for looms
+// with more shafts than the draft uses.
+export const toWifDraft = (
+  loom: LoomDraft,
+  { liftplan, title, shafts = loom.shafts }: { liftplan: boolean; title?: string; shafts?: number }
+): WifDraft => {
+  const picks = [...loom.treadling.keys()].reverse();
+  return {
+    title,
+    shafts: Math.max(shafts, loom.shafts),
+    treadles: liftplan ? 0 : loom.treadles,
+    ends: loom.threading.length,
+    picks: picks.length,
+    threading: loom.threading.map((shaft) => [shaft]),
+    tieup: liftplan ? [] : loom.tieup,
+    treadling: liftplan ? [] : picks.map((y) => [loom.treadling[y]]),
+    liftplan: liftplan ? picks.map((y) => loom.liftplan[y]) : [],
+  };
+};
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Entries with nothing listed are left out, which WIF reads as "none"
+const numberedLines = (lists: number[][]) =>
+  lists.flatMap((list, i) => (list.length > 0 ? [`${i + 1}=${list.join(',')}`] : []));
+
+// Writes a WIF 1.1 file with one warp and one weft color. The tie-up and treadling are written
+// when the draft has a treadling, the liftplan when it has one.
+export const encodeWif = (draft: WifDraft, { warpColor, weftColor, date = new Date() }: WifEncodeOptions): string => {
+  const body: [string, string[]][] = [];
+  if (draft.title) {
+    body.push(['TEXT', [`Title=${draft.title}`]]);
+  }
+  body.push(
+    ['WEAVING', [`Shafts=${draft.shafts}`, `Treadles=${draft.treadles}`, 'Rising Shed=true']],
+    ['WARP', [`Threads=${draft.ends}`, 'Color=1']],
+    ['WEFT', [`Threads=${draft.picks}`, 'Color=2']],
+    ['COLOR PALETTE', ['Entries=2', 'Range=0,255']],
+    ['COLOR TABLE', [`1=${warpColor.join(',')}`, `2=${weftColor.join(',')}`]],
+    ['THREADING', numberedLines(draft.threading)]
+  );
+  if (draft.treadling.length > 0) {
+    body.push(['TIEUP', numberedLines(draft.tieup)], ['TREADLING', numberedLines(draft.treadling)]);
+  }
+  if (draft.liftplan.length > 0) {
+    body.push(['LIFTPLAN', numberedLines(draft.liftplan)]);
+  }
+
+  const sections: [string, string[]][] = [
+    ['WIF', [
+      'Version=1.1',
+      `Date=${MONTHS[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}`,
+      'Developers=wif@mhsoft.com',
+      'Source Program=Textile Pattern Designer',
+      'Source Version=1.0',
+    ]],
+    ['CONTENTS', body.map(([name]) => `${name}=true`)],
+    ...body,
+  ];
+
+  // WIF is an INI format, so Windows line endings keep older readers happy
+  return sections.map(([name, lines]) => [`[${name}]`, ...lines].join('\r\n')).join('\r\n\r\n') + '\r\n';
+};
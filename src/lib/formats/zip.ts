@@ -0,0 +1,70 @@
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_SIGNATURE = 0x06054b50;
+const VERSION = 20;
+// Bit 11: names are UTF-8
+const FLAG_UTF8 = 0x0800;
+// 1 January 1980, the earliest date ZIP can store; some tools reject the all-zero date
+const DOS_DATE = 0x0021;
+
+// Writes an uncompressed ("stored") ZIP archive. The entries are usually PNGs or other files
+// that are already compressed, so deflating them again would gain little.
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const files = entries.map(({ name, data }) => ({ name: encoder.encode(name), data, crc: crc32(data) }));
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+
+  const offsets: number[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, VERSION, true);
+    view.setUint16(offset + 6, FLAG_UTF8, true);
+    // Compression method and modification time stay 0
+    view.setUint16(offset + 12, DOS_DATE, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    bytes.set(file.name, offset + 30);
+    bytes.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  const centralOffset = offset;
+  files.forEach((file, i) => {
+    view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, VERSION, true);
+    view.setUint16(offset + 6, VERSION, true);
+    view.setUint16(offset + 8, FLAG_UTF8, true);
+    view.setUint16(offset + 14, DOS_DATE, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    view.setUint32(offset + 42, offsets[i], true);
+    bytes.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  });
+
+  view.setUint32(offset, END_SIGNATURE, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return bytes;
+};
@@ -0,0 +1,110 @@
+import type { ColorDistance, HarmonyRule, QuantizeMethod, RemainderStrategy } from '@/lib/engine';
+import type { DraftPart } from '@/lib/draft-sections';
+import type { StructureParams } from '@/lib/supabase';
+
+// Labels for the processing options shown in the UI
+export const REMAINDER_OPTIONS: { value: RemainderStrategy; label: string }[] = [
+  { value: 'keep', label: 'Leave as-is' },
+  { value: 'crop', label: 'Crop' },
+  { value: 'pad-edge', label: 'Pad with edge pixels' },
+  { value: 'pad-mirror', label: 'Pad with mirrored pixels' },
+  { value: 'truncate', label: 'Truncated pattern' },
+];
+
+export const QUANTIZE_METHOD_OPTIONS: { value: QuantizeMethod; label: string }[] = [
+  { value: 'median-cut', label: 'Median cut' },
+  { value: 'k-means', label: 'K-means' },
+  { value: 'octree', label: 'Octree' },
+];
+
+export const HARMONY_RULE_OPTIONS: { value: HarmonyRule; label: string }[] = [
+  { value: 'hue-rotation', label: 'Hue rotation' },
+  { value: 'complementary', label: 'Complementary' },
+  { value: 'analogous', label: 'Analogous' },
+  { value: 'triadic', label: 'Triadic' },
+  { value: 'split-complementary', label: 'Split complementary' },
+  { value: 'tetradic', label: 'Tetradic' },
+];
+
+export const DRAFT_PART_OPTIONS: { value: DraftPart; label: string }[] = [
+  { value: 'threading', label: 'Threading (warp)' },
+  { value: 'treadling', label: 'Treadling (weft)' },
+  { value: 'tieup', label: 'Tie-up (lowest shaft per treadle)' },
+];
+
+export const STRUCTURE_KIND_OPTIONS: { value: StructureParams['kind']; label: string }[] = [
+  { value: 'plain', label: 'Plain' },
+  { value: 'twill', label: 'Twill' },
+  { value: 'satin', label: 'Satin' },
+  { value: 'basket', label: 'Basket / rib' },
+];
+
+// Starting settings when the user switches to a structure kind
+export const DEFAULT_STRUCTURE_PARAMS: Record<StructureParams['kind'], StructureParams> = {
+  plain: { kind: 'plain' },
+  twill: { kind: 'twill', up: 2, down: 1, direction: 'z' },
+  satin: { kind: 'satin', shafts: 5, move: 2, face: 'weft' },
+  basket: { kind: 'basket', ends: 2, picks: 2 },
+};
+
+// Conventional weaver's name for a structure, e.g. "Twill 2/1 Z" or "Weft satin 8/3"
+export const formatStructureParams = (params: StructureParams): string => {
+  switch (params.kind) {
+    case 'plain':
+      return 'Plain';
+    case 'twill':
+      return `Twill ${params.up}/${params.down} ${params.direction.toUpperCase()}`;
+    case 'satin':
+      return `${params.face === 'warp' ? 'Warp' : 'Weft'} satin ${params.shafts}/${params.move}`;
+    case 'basket':
+      return params.ends === params.picks ? `Basket ${params.ends}×${params.picks}` : `Rib ${params.ends}×${params.picks}`;
+  }
+};
+
+export interface ColorReductionSettings {
+  enabled: boolean;
+  // count builds a palette of colorCount colors from the images; fixed maps onto the yarn colors
+  // typed in, library onto a saved yarn palette
+  paletteSource: 'count' | 'fixed' | 'library';
+  colorCount: number;
+  // Hex colors, one yarn per entry
+  fixedPalette: string;
+  libraryPaletteId: string;
+  method: QuantizeMethod;
+  dither: boolean;
+  distance: ColorDistance;
+}
+
+export const DEFAULT_COLOR_REDUCTION: ColorReductionSettings = {
+  enabled: false,
+  paletteSource: 'count',
+  colorCount: 8,
+  fixedPalette: '',
+  libraryPaletteId: '',
+  method: 'median-cut',
+  dither: false,
+  distance: 'ciede2000',
+};
+
+export interface StructureMappingSettings {
+  enabled: boolean;
+  // before: the weave replaces the image that gets reordered; after: the reordered design is woven
+  placement: 'before' | 'after';
+  // Weave structure id for each palette index; empty or missing leaves the weft showing
+  structureIds: string[];
+  // Where structure repeats start, in pixels from the image's top-left corner
+  originX: number;
+  originY: number;
+}
+
+export const DEFAULT_STRUCTURE_MAPPING: StructureMappingSettings = {
+  enabled: false,
+  placement: 'after',
+  structureIds: [],
+  originX: 0,
+  originY: 0,
+};
+
+// Short description of a section sequence, e.g. "Border → Border → Ground"
+export const formatSequence = (sections: { name: string }[]): string =>
+  sections.length > 0 ? sections.map(section => section.name).join(' → ') : 'None';
@@ -0,0 +1,34 @@
+import type { PixelSection, SliceLayout } from '@/lib/supabase';
+
+// Turns a saved layout into the section sequence the engine lays out, or an error message
+// when a slice refers to a missing section or one whose size doesn't match its width
+export const resolveSliceLayout = (
+  layout: SliceLayout,
+  sections: PixelSection[]
+): { sequence: PixelSection[] } | { error: string } => {
+  if (layout.slices.length === 0) {
+    return { error: `Layout "${layout.name}" has no slices` };
+  }
+
+  const sequence: PixelSection[] = [];
+
+  for (const [index, slice] of layout.slices.entries()) {
+    const section = sections.find(s => s.id === slice.section_id);
+
+    if (!section) {
+      return { error: `Slice ${index + 1} of "${layout.name}" uses a section that no longer exists` };
+    }
+
+    if (section.size !== slice.width) {
+      return { error: `Slice ${index + 1} of "${layout.name}" is ${slice.width} wide but "${section.name}" has size ${section.size}` };
+    }
+
+    sequence.push(section);
+  }
+
+  return { sequence };
+};
+
+// Distinct, translucent band colours for the overlay
+export const sliceBandColor = (index: number, count: number): string =>
+  `hsla(${Math.round((index * 360) / Math.max(1, count))}, 80%, 50%, 0.25)`;
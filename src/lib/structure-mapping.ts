@@ -0,0 +1,36 @@
+import { drawdownToIndexed, fillStructures, structureFromPattern, type Drawdown, type IndexedImage } from '@/lib/engine';
+import type { WeaveStructure } from '@/lib/supabase';
+import type { StructureMappingSettings } from '@/lib/processing-options';
+
+// Settings resolved against the saved structures, ready to weave images with
+export interface StructureMapping {
+  placement: StructureMappingSettings['placement'];
+  // Structure for each palette index, null where the weft shows
+  structures: (Drawdown | null)[];
+  origin: { x: number; y: number };
+}
+
+// Null when mapping is off or no color has a structure; ids of deleted structures count as none
+export const resolveStructureMapping = (
+  settings: StructureMappingSettings,
+  structures: WeaveStructure[]
+): StructureMapping | null => {
+  if (!settings.enabled) return null;
+
+  const resolved = settings.structureIds.map((id) => {
+    const structure = structures.find((s) => s.id === id);
+    return structure ? structureFromPattern(structure) : null;
+  });
+
+  if (resolved.every((structure) => structure === null)) return null;
+
+  return {
+    placement: settings.placement,
+    structures: resolved,
+    origin: { x: settings.originX, y: settings.originY },
+  };
+};
+
+// The full-resolution weave of an indexed image, as a black (warp) and white (weft) image
+export const weaveIndexed = (image: IndexedImage, mapping: StructureMapping): IndexedImage =>
+  drawdownToIndexed(fillStructures(image, mapping.structures, mapping.origin));
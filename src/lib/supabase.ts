@@ -5,11 +5,27 @@ const supabaseAnonKey = 'your-anon-key'
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+// Channels are looked up by name, so several components subscribing under one name would share
+// a channel and the first to unsubscribe would end it for all; each subscriber gets its own
+const createChannel = (name: string) => supabase.channel(`${name}_${crypto.randomUUID()}`)
+
+export type SliceOrientation = 'vertical' | 'horizontal';
+
+// column sections permute columns (or rows) inside slices; block sections permute the
+// cells of a size × size tile, row-major, each cell being cell_size pixels square
+export type SectionKind = 'column' | 'block';
+
 export interface PixelSection {
   id: string;
   name: string;
   size: number;
   pattern: number[];
+  // Default orientation when processing; rows created before it existed are vertical
+  orientation?: SliceOrientation;
+  // Rows created before block sections existed are column sections
+  kind?: SectionKind;
+  // Block sections only; defaults to 1 (pixel-level)
+  cell_size?: number;
   created_at: string;
 }
 
@@ -47,7 +63,7 @@ export const pixelSectionService = {
   },
 
   // Update a section
-  async updateSection(id: string, updates: Partial<Pick<PixelSection, 'name' | 'pattern'>>): Promise<PixelSection | null> {
+  async updateSection(id: string, updates: Partial<Pick<PixelSection, 'name' | 'pattern' | 'orientation' | 'cell_size'>>): Promise<PixelSection | null> {
     const { data, error } = await supabase
       .from('pixel_sections')
       .update(updates)
@@ -80,8 +96,7 @@ export const pixelSectionService = {
 
   // Subscribe to real-time changes
   subscribeToSections(callback: (sections: PixelSection[]) => void) {
-    return supabase
-      .channel('pixel_sections_changes')
+    return createChannel('pixel_sections_changes')
       .on('postgres_changes', 
         { event: '*', schema: 'public', table: 'pixel_sections' },
         () => {
@@ -91,4 +106,240 @@ export const pixelSectionService = {
       )
       .subscribe();
   }
-};
\ No newline at end of file
+};
+
+export interface SliceLayoutEntry {
+  width: number;
+  // A pixel section whose size matches `width`
+  section_id: string;
+}
+
+// Ordered slice widths, repeated across the image
+export interface SliceLayout {
+  id: string;
+  name: string;
+  slices: SliceLayoutEntry[];
+  created_at: string;
+}
+
+// Database operations for slice layouts
+export const sliceLayoutService = {
+  // Get all layouts
+  async getAllLayouts(): Promise<SliceLayout[]> {
+    const { data, error } = await supabase
+      .from('slice_layouts')
+      .select('*')
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching layouts:', error);
+      return [];
+    }
+    
+    return data || [];
+  },
+
+  // Create a new layout
+  async createLayout(layout: Omit<SliceLayout, 'id' | 'created_at'>): Promise<SliceLayout | null> {
+    const { data, error } = await supabase
+      .from('slice_layouts')
+      .insert([layout])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating layout:', error);
+      return null;
+    }
+    
+    return data;
+  },
+
+  // Delete a layout
+  async deleteLayout(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('slice_layouts')
+      .delete()
+      .eq('id', id);
+    
+    if (error) {
+      console.error('Error deleting layout:', error);
+      return false;
+    }
+    
+    return true;
+  },
+
+  // Subscribe to real-time changes
+  subscribeToLayouts(callback: (layouts: SliceLayout[]) => void) {
+    return createChannel('slice_layouts_changes')
+      .on('postgres_changes', 
+        { event: '*', schema: 'public', table: 'slice_layouts' },
+        () => {
+          // Refetch all layouts when there's a change
+          this.getAllLayouts().then(callback);
+        }
+      )
+      .subscribe();
+  }
+};
+
+export interface YarnColor {
+  name: string;
+  // Supplier's yarn or shade code; empty when the source file has none
+  code: string;
+  // "#rrggbb"
+  hex: string;
+}
+
+// A yarn card: named colors that images can be mapped onto
+export interface YarnPalette {
+  id: string;
+  name: string;
+  colors: YarnColor[];
+  created_at: string;
+}
+
+// Database operations for yarn palettes
+export const yarnPaletteService = {
+  // Get all palettes
+  async getAllPalettes(): Promise<YarnPalette[]> {
+    const { data, error } = await supabase
+      .from('yarn_palettes')
+      .select('*')
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching palettes:', error);
+      return [];
+    }
+    
+    return data || [];
+  },
+
+  // Create a new palette
+  async createPalette(palette: Omit<YarnPalette, 'id' | 'created_at'>): Promise<YarnPalette | null> {
+    const { data, error } = await supabase
+      .from('yarn_palettes')
+      .insert([palette])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating palette:', error);
+      return null;
+    }
+    
+    return data;
+  },
+
+  // Delete a palette
+  async deletePalette(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('yarn_palettes')
+      .delete()
+      .eq('id', id);
+    
+    if (error) {
+      console.error('Error deleting palette:', error);
+      return false;
+    }
+    
+    return true;
+  },
+
+  // Subscribe to real-time changes
+  subscribeToPalettes(callback: (palettes: YarnPalette[]) => void) {
+    return createChannel('yarn_palettes_changes')
+      .on('postgres_changes', 
+        { event: '*', schema: 'public', table: 'yarn_palettes' },
+        () => {
+          // Refetch all palettes when there's a change
+          this.getAllPalettes().then(callback);
+        }
+      )
+      .subscribe();
+  }
+};
+
+// Settings a weave structure was generated from. Twill direction is the way the diagonal
+// rises; satin face says which yarn the floats show.
+export type StructureParams =
+  | { kind: 'plain' }
+  | { kind: 'twill'; up: number; down: number; direction: 'z' | 's' }
+  | { kind: 'satin'; shafts: number; move: number; face: 'warp' | 'weft' }
+  | { kind: 'basket'; ends: number; picks: number };
+
+// One repeat of a weave structure: width ends by height picks, row-major from the top,
+// 1 where the warp is raised
+export interface WeaveStructure {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  pattern: number[];
+  params: StructureParams;
+  created_at: string;
+}
+
+// Database operations for weave structures
+export const weaveStructureService = {
+  // Get all structures
+  async getAllStructures(): Promise<WeaveStructure[]> {
+    const { data, error } = await supabase
+      .from('weave_structures')
+      .select('*')
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching structures:', error);
+      return [];
+    }
+    
+    return data || [];
+  },
+
+  // Create a new structure
+  async createStructure(structure: Omit<WeaveStructure, 'id' | 'created_at'>): Promise<WeaveStructure | null> {
+    const { data, error } = await supabase
+      .from('weave_structures')
+      .insert([structure])
+      .select()
+      .single();
+    
+    if (error) {
+      console.error('Error creating structure:', error);
+      return null;
+    }
+    
+    return data;
+  },
+
+  // Delete a structure
+  async deleteStructure(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('weave_structures')
+      .delete()
+      .eq('id', id);
+    
+    if (error) {
+      console.error('Error deleting structure:', error);
+      return false;
+    }
+    
+    return true;
+  },
+
+  // Subscribe to real-time changes
+  subscribeToStructures(callback: (structures: WeaveStructure[]) => void) {
+    return createChannel('weave_structures_changes')
+      .on('postgres_changes', 
+        { event: '*', schema: 'public', table: 'weave_structures' },
+        () => {
+          // Refetch all structures when there's a change
+          this.getAllStructures().then(callback);
+        }
+      )
+      .subscribe();
+  }
+};
@@ -1,23 +1,90 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { DatabaseSectionCreator } from "@/components/DatabaseSectionCreator";
+import { SliceLayoutCreator } from "@/components/SliceLayoutCreator";
+import { PaletteLibrary } from "@/components/PaletteLibrary";
+import { WifImport } from "@/components/WifImport";
+import { StructureLibrary } from "@/components/StructureLibrary";
 import { type PixelSection } from "@/lib/supabase";
-import { ImageUpload } from "@/components/ImageUpload";
+import { expandIndexed, type WeaveAxis } from "@/lib/engine";
+import {
+  DEFAULT_COLOR_REDUCTION,
+  DEFAULT_STRUCTURE_MAPPING,
+  formatSequence,
+  type ColorReductionSettings,
+  type StructureMappingSettings,
+} from "@/lib/processing-options";
+import { weaveIndexed, type StructureMapping as ResolvedMapping } from "@/lib/structure-mapping";
+import { ImageUpload, type UploadedImage } from "@/components/ImageUpload";
 import { ImageProcessor } from "@/components/ImageProcessor";
+import { ColorReduction, type ReducedImage } from "@/components/ColorReduction";
+import { StructureMapping } from "@/components/StructureMapping";
 import { Palette, Upload, Zap, Download } from "lucide-react";
 
 const Index = () => {
-  const [selectedSection, setSelectedSection] = useState<PixelSection | null>(null);
-  const [uploadedImage, setUploadedImage] = useState<File | null>(null);
-  const [originalImageData, setOriginalImageData] = useState<ImageData | null>(null);
+  const [warpSections, setWarpSections] = useState<PixelSection[]>([]);
+  const [weftSections, setWeftSections] = useState<PixelSection[]>([]);
+  const [blockSection, setBlockSection] = useState<PixelSection | null>(null);
+  const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
+  const [colorReduction, setColorReduction] = useState<ColorReductionSettings>(DEFAULT_COLOR_REDUCTION);
+  const [reducedImages, setReducedImages] = useState<ReducedImage[] | null>(null);
+  const [structureMapping, setStructureMapping] = useState<StructureMappingSettings>(DEFAULT_STRUCTURE_MAPPING);
+  const [weaveMapping, setWeaveMapping] = useState<ResolvedMapping | null>(null);
 
-  const handleImageUpload = (file: File, imageData: ImageData) => {
-    setUploadedImage(file);
-    setOriginalImageData(imageData);
+  // The first upload is the primary image; the rest are interleaved with it. Once colors are
+  // reduced, the reduced versions are what gets processed, and when structures are mapped
+  // before reordering, their weaves are.
+  const uploadedImage = uploadedImages[0]?.file ?? null;
+  const colorImages = reducedImages ?? uploadedImages;
+  const design = colorImages[0]?.indexed;
+  // Woven once here: the mapping card previews it and "before" placement processes it
+  const designWeave = useMemo(
+    () => (design && weaveMapping ? weaveIndexed(design, weaveMapping) : undefined),
+    [design, weaveMapping]
+  );
+  const wovenImages = useMemo(
+    () =>
+      weaveMapping?.placement === "before"
+        ? colorImages.map((image, i) => {
+            if (!image.indexed) return image;
+            const indexed = i === 0 && designWeave ? designWeave : weaveIndexed(image.indexed, weaveMapping);
+            const { data, width, height } = expandIndexed(indexed);
+            return { imageData: new ImageData(data, width, height), indexed };
+          })
+        : null,
+    [colorImages, weaveMapping, designWeave]
+  );
+  const sourceImages = wovenImages ?? colorImages;
+  const originalImageData = sourceImages[0]?.imageData ?? null;
+
+  // Structures are chosen per palette index, so they no longer fit once the palette changes
+  const designPalette = design ? Array.from(design.palette).join(",") : "";
+  useEffect(() => {
+    setStructureMapping((current) => (current.structureIds.length === 0 ? current : { ...current, structureIds: [] }));
+  }, [designPalette]);
+
+  const handleImagesChange = (images: UploadedImage[]) => {
+    setUploadedImages(images);
+    setReducedImages(null);
   };
 
+  const handleSequenceChange = (axis: WeaveAxis, sections: PixelSection[]) => {
+    if (axis === "warp") {
+      setWarpSections(sections);
+    } else {
+      setWeftSections(sections);
+    }
+  };
+
+  const handleSwapAxes = () => {
+    setWarpSections(weftSections);
+    setWeftSections(warpSections);
+  };
+
+  const hasSection = warpSections.length > 0 || weftSections.length > 0 || blockSection !== null;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -59,16 +126,29 @@ const Index = () => {
             <CardContent className="pt-4">
               <div className="flex flex-wrap items-center gap-4 text-sm">
                 <div className="flex items-center gap-2">
-                  <div className={`w-3 h-3 rounded-full ${selectedSection ? 'bg-success' : 'bg-muted'}`} />
-                  <span>Pattern Section: {selectedSection ? selectedSection.name : 'None selected'}</span>
+                  <div className={`w-3 h-3 rounded-full ${warpSections.length > 0 ? 'bg-success' : 'bg-muted'}`} />
+                  <span>Warp: {warpSections.length > 0 ? formatSequence(warpSections) : 'None selected'}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className={`w-3 h-3 rounded-full ${weftSections.length > 0 ? 'bg-success' : 'bg-muted'}`} />
+                  <span>Weft: {weftSections.length > 0 ? formatSequence(weftSections) : 'None selected'}</span>
                 </div>
+                {blockSection && (
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-full bg-success" />
+                    <span>Block: {blockSection.name}</span>
+                  </div>
+                )}
                 <div className="flex items-center gap-2">
                   <div className={`w-3 h-3 rounded-full ${uploadedImage ? 'bg-success' : 'bg-muted'}`} />
-                  <span>Image: {uploadedImage ? uploadedImage.name : 'None uploaded'}</span>
+                  <span>
+                    Image: {uploadedImage ? uploadedImage.name : 'None uploaded'}
+                    {uploadedImages.length > 1 && ` + ${uploadedImages.length - 1} interleaved`}
+                  </span>
                 </div>
                 <div className="flex items-center gap-2">
                   <div className={`w-3 h-3 rounded-full ${originalImageData ? 'bg-success' : 'bg-muted'}`} />
-                  <span>Ready to Process: {selectedSection && originalImageData ? 'Yes' : 'No'}</span>
+                  <span>Ready to Process: {hasSection && originalImageData ? 'Yes' : 'No'}</span>
                 </div>
               </div>
             </CardContent>
@@ -85,15 +165,35 @@ const Index = () => {
 
           <TabsContent value="sections" className="space-y-4">
             <DatabaseSectionCreator 
-              onSectionSelect={setSelectedSection}
-              selectedSection={selectedSection}
+              onSequenceChange={handleSequenceChange}
+              warpSections={warpSections}
+              weftSections={weftSections}
+              blockSection={blockSection}
+              onBlockSelect={setBlockSection}
             />
+            <SliceLayoutCreator onSequenceChange={handleSequenceChange} />
+            <WifImport onSequenceChange={handleSequenceChange} />
+            <StructureLibrary />
+            <PaletteLibrary />
           </TabsContent>
 
           <TabsContent value="upload" className="space-y-4">
             <ImageUpload 
-              onImageUpload={handleImageUpload}
-              uploadedImage={uploadedImage}
+              onImagesChange={handleImagesChange}
+              uploadedImages={uploadedImages}
+            />
+            <ColorReduction
+              images={uploadedImages}
+              settings={colorReduction}
+              onSettingsChange={setColorReduction}
+              onReducedChange={setReducedImages}
+            />
+            <StructureMapping
+              design={design}
+              weave={designWeave}
+              settings={structureMapping}
+              onSettingsChange={setStructureMapping}
+              onMappingChange={setWeaveMapping}
             />
           </TabsContent>
 
@@ -101,7 +201,14 @@ const Index = () => {
             <ImageProcessor 
               originalImage={uploadedImage}
               originalImageData={originalImageData}
-              selectedSection={selectedSection}
+              sourceIndexed={sourceImages[0]?.indexed}
+              sourceResolution={uploadedImages[0]?.resolution}
+              interleaveSources={sourceImages.length > 1 ? sourceImages.map((image) => image.imageData) : undefined}
+              warpSections={warpSections}
+              weftSections={weftSections}
+              blockSection={blockSection}
+              weaveAfter={weaveMapping?.placement === "after" ? weaveMapping : undefined}
+              onSwapAxes={handleSwapAxes}
             />
           </TabsContent>
         </Tabs>
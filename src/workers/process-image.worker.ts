@@ -0,0 +1,38 @@
+import { runProcessingJob } from '@/lib/engine';
+import type { ProcessRequest, ProcessResponse } from './protocol';
+
+const post = (message: ProcessResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<ProcessRequest>) => {
+  const { jobId, sources, job } = event.data;
+  let lastPercent = -1;
+
+  try {
+    const results = runProcessingJob(
+      sources.map(({ width, height, buffer }) => ({ width, height, data: new Uint8ClampedArray(buffer) })),
+      job,
+      {
+        onProgress: (completed, total) => {
+          // Only report whole-percent steps so large images don't flood the main thread
+          const percent = Math.floor((completed / total) * 100);
+          if (percent !== lastPercent) {
+            lastPercent = percent;
+            post({ type: 'progress', jobId, completed, total });
+          }
+        },
+      }
+    );
+
+    const transferred = results.map(result => ({
+      width: result.width,
+      height: result.height,
+      buffer: result.data.buffer as ArrayBuffer,
+    }));
+
+    post({ type: 'done', jobId, results: transferred }, transferred.map(result => result.buffer));
+  } catch (error) {
+    post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,22 @@
+import type { ProcessingJob } from '@/lib/engine';
+
+export interface TransferredImage {
+  width: number;
+  height: number;
+  // Transferred RGBA pixels
+  buffer: ArrayBuffer;
+}
+
+export interface ProcessRequest {
+  type: 'process';
+  jobId: number;
+  // One image, or several of the same size that the first step interleaves
+  sources: TransferredImage[];
+  job: ProcessingJob;
+}
+
+export type ProcessResponse =
+  | { type: 'progress'; jobId: number; completed: number; total: number }
+  // One image per pipeline step, the last one being the final result
+  | { type: 'done'; jobId: number; results: TransferredImage[] }
+  | { type: 'error'; jobId: number; message: string };